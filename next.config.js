@@ -4,7 +4,13 @@ const nextConfig = {
     '@genkit-ai/core',
     '@genkit-ai/googleai',
     'genkit',
+    'heic-convert',
   ],
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '10mb', // Single image uploads and conversation imports, which embed their images
+    },
+  },
 }
 
 module.exports = nextConfig
@@ -1,37 +1,265 @@
 'use server';
 
+import { buildAnalysisPrompt, ImageAnalysisSchema } from '@/lib/analysis';
+import {
+  buildChatRequest,
+  getHighlights,
+  getImageUrls,
+  getMaxImages,
+  getSafetySettings,
+  getTooManyImagesMessage,
+  NO_IMAGE_MESSAGE,
+  toChatHistory,
+} from '@/lib/chat';
+import { getChatErrorMessage, toChatError } from '@/lib/chat-errors';
+import { parseConversationJson } from '@/lib/export';
 import { ai } from '@/lib/genkit';
-import { ChatResponse } from '@/types/conversation';
+import { describeImageEvent, getImageEvent } from '@/lib/image-events';
+import { MAX_UPLOAD_BYTES } from '@/lib/image-files';
+import { inlineStoredImages, saveImage, storeDataUrl } from '@/lib/images';
+import { AUTO_LANGUAGE, getLanguage, isSupportedLanguage } from '@/lib/languages';
+import {
+  buildLivePrompt,
+  getRateLimitKey,
+  LIVE_FRAMES_PER_MINUTE,
+  LiveCaptionSchema,
+  MAX_LIVE_FRAME_BYTES,
+  MAX_LIVE_QUESTION_LENGTH,
+  takeLiveFrameSlot,
+} from '@/lib/live';
+import { toPlainText } from '@/lib/markdown';
+import { resolveGenerationSettings } from '@/lib/models';
+import { DEFAULT_PERSONA_ID, getPersona } from '@/lib/personas';
+import { withRetry } from '@/lib/retry';
+import { getSafetyInfo } from '@/lib/safety';
+import { getBranch } from '@/lib/conversation-tree';
+import { createSession, getMessageId, getSessionStore, placeTurn, recordTurn, reviveSession } from '@/lib/session';
+import { getSpeechSynthesizer, saveAudio } from '@/lib/speech';
+import {
+  ACCEPTED_AUDIO_TYPES,
+  getAudioMimeType,
+  MAX_AUDIO_BYTES,
+  TRANSCRIPTION_PROMPT,
+  TranscriptionSchema,
+} from '@/lib/transcription';
+import {
+  AnalysisResponse,
+  ChatResponse,
+  ChatSession,
+  ChatSessionSummary,
+  GenerationSettings,
+  ImageHighlight,
+  ImageUploadResponse,
+  LiveFrameRequest,
+  LiveFrameResponse,
+  Message,
+  TranscriptionResponse,
+  TurnOptions,
+} from '@/types/conversation';
+import { headers } from 'next/headers';
 
-// System prompt for image analysis
-const SYSTEM_PROMPT = `You are an expert AI-powered image analysis tool with advanced computer vision capabilities. Your role is to:
+export async function createChatSession(): Promise<{ success: boolean; sessionId?: string; error?: string }> {
+  try {
+    const session = createSession();
+    await getSessionStore().save(session);
+    return { success: true, sessionId: session.id };
+  } catch (error) {
+    console.error('Error creating chat session:', error);
+    return { success: false, error: 'Failed to create session' };
+  }
+}
+
+export async function getSessionHistory(
+  sessionId: string,
+): Promise<{ success: boolean; session?: ChatSession; error?: string }> {
+  try {
+    const session = await getSessionStore().get(sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    return { success: true, session };
+  } catch (error) {
+    console.error('Error loading session history:', error);
+    return { success: false, error: 'Failed to load session' };
+  }
+}
+
+export async function listChatSessions(): Promise<{
+  success: boolean;
+  sessions?: ChatSessionSummary[];
+  error?: string;
+}> {
+  try {
+    const sessions = await getSessionStore().list();
+    // Sessions are created on the first question, but skip any that never got one
+    return { success: true, sessions: sessions.filter((session) => session.messageCount > 0) };
+  } catch (error) {
+    console.error('Error listing chat sessions:', error);
+    return { success: false, error: 'Failed to list sessions' };
+  }
+}
+
+export async function renameChatSession(
+  sessionId: string,
+  title: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const session = await getSessionStore().update(sessionId, (latest) => ({
+      ...latest,
+      title: title.trim() || undefined,
+    }));
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    return { success: false, error: 'Failed to rename session' };
+  }
+}
+
+// The per-conversation image limit, so the client can warn before it is reached
+export async function getImageLimit(): Promise<number> {
+  return getMaxImages();
+}
+
+// Replace the conversation's image set and post a system entry describing the change after parentId
+// (the active leaf by default). Returns the entry, or none when nothing changed
+export async function updateSessionImages(
+  sessionId: string,
+  images: string[],
+  parentId?: string | null,
+): Promise<{ success: boolean; message?: Message; error?: string }> {
+  try {
+    const session = await getSessionStore().get(sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+
+    const imageUrls = getImageUrls(images, session);
+    if (imageUrls.length > getMaxImages()) {
+      return { success: false, error: getTooManyImagesMessage() };
+    }
+
+    const placement = placeTurn(session, { parentId });
+    if ('error' in placement) {
+      return { success: false, error: placement.error };
+    }
+
+    const imageEvent = getImageEvent(session.images, imageUrls);
+    if (imageEvent.added.length === 0 && imageEvent.removed.length === 0) {
+      return { success: true };
+    }
+
+    const message: Message = {
+      id: getMessageId(session),
+      parentId: placement.parentId,
+      role: 'system',
+      content: describeImageEvent(imageEvent, session.images, imageUrls),
+      timestamp: new Date(),
+      imageUrls,
+      imageEvent,
+    };
+    await recordTurn(session, [message], { images: imageUrls });
+    return { success: true, message };
+  } catch (error) {
+    console.error('Error updating session images:', error);
+    return { success: false, error: 'Failed to update images' };
+  }
+}
+
+// Remember which branch is shown, so reloading the conversation shows the same answers
+export async function selectBranch(sessionId: string, leafId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    let found = false;
+    const session = await getSessionStore().update(sessionId, (latest) => {
+      found = latest.messages.some((message) => message.id === leafId);
+      return found ? { ...latest, activeLeafId: leafId } : latest;
+    });
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+    if (!found) {
+      return { success: false, error: 'Message not found' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Error selecting branch:', error);
+    return { success: false, error: 'Failed to select branch' };
+  }
+}
+
+// Restore a conversation from a JSON export. It gets a new ID so it never overwrites an existing session
+export async function importChatSession(
+  json: string,
+): Promise<{ success: boolean; sessionId?: string; error?: string }> {
+  let imported: ChatSession;
+  try {
+    imported = reviveSession(parseConversationJson(json));
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid export file' };
+  }
 
-• Provide detailed, accurate analysis of images
-• Identify objects, people, scenes, text, and visual elements
-• Describe composition, colors, lighting, and artistic elements
-• Answer specific questions about image content
-• Offer insights about context, meaning, and relationships within images
-• Be precise, professional, and informative in your responses
+  try {
+    // Exports embed their images; put them back in the image store so requests stay small
+    const storedUrls = new Map<string, string>();
+    const store = async (url: string) => {
+      if (!url.startsWith('data:')) return url;
+      if (!storedUrls.has(url)) {
+        storedUrls.set(url, await storeDataUrl(url));
+      }
+      return storedUrls.get(url)!;
+    };
 
-IMPORTANT: Keep your responses concise and focused - maximum 600 words. Prioritize the most relevant information for the user's specific question.
+    const session: ChatSession = {
+      ...imported,
+      id: createSession().id,
+      images: await Promise.all(imported.images.map(store)),
+      messages: await Promise.all(
+        imported.messages.map(async (message) => ({
+          ...message,
+          imageUrl: message.imageUrl && (await store(message.imageUrl)),
+          imageUrls: message.imageUrls && (await Promise.all(message.imageUrls.map(store))),
+        })),
+      ),
+    };
+    await getSessionStore().save(session);
+    return { success: true, sessionId: session.id };
+  } catch (error) {
+    console.error('Error importing chat session:', error);
+    return { success: false, error: 'Failed to import session' };
+  }
+}
 
-`;
+export async function deleteChatSession(sessionId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    await getSessionStore().delete(sessionId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    return { success: false, error: 'Failed to delete session' };
+  }
+}
 
-export async function uploadImage(
-  formData: FormData,
-): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
+export async function uploadImage(formData: FormData): Promise<ImageUploadResponse> {
   try {
-    const file = formData.get('image') as File;
-    if (!file) {
-      return { success: false, error: 'No image provided' };
+    const file = formData.get('image');
+    if (!(file instanceof File)) {
+      return { success: false, error: 'No image provided', code: 'missing_file' };
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return {
+        success: false,
+        error: `Images must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller`,
+        code: 'file_too_large',
+      };
     }
 
-    // Convert file to base64 data URL for in-memory storage (in production, use cloud storage)
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    const base64 = buffer.toString('base64');
-    const mimeType = file.type;
-    const imageUrl = `data:${mimeType};base64,${base64}`;
+    // Validated and normalized on the server; messages and later requests only carry the image URL
+    const { imageUrl, error, code } = await saveImage(Buffer.from(await file.arrayBuffer()));
+    if (!imageUrl) {
+      return { success: false, error, code };
+    }
 
     return { success: true, imageUrl };
   } catch (error) {
@@ -41,86 +269,374 @@ export async function uploadImage(
 }
 
 export async function chatWithImage(
+  sessionId: string,
   message: string,
-  imageUrl?: string,
-  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
+  images: string[],
+  requestedSettings?: Partial<GenerationSettings>,
+  personaId: string = DEFAULT_PERSONA_ID,
+  language: string = AUTO_LANGUAGE,
+  highlights: ImageHighlight[] = [],
+  turnOptions: TurnOptions = {},
 ): Promise<ChatResponse> {
   try {
-    // Check if image is provided
-    if (!imageUrl || imageUrl.trim() === '') {
+    const { settings, error: settingsError } = resolveGenerationSettings(requestedSettings);
+    if (!settings) {
+      return { message: settingsError, success: false, error: { code: 'invalid_request' } };
+    }
+
+    const persona = getPersona(personaId);
+    if (!persona) {
+      return { message: `Unknown analysis mode "${personaId}"`, success: false, error: { code: 'invalid_request' } };
+    }
+
+    if (!isSupportedLanguage(language)) {
+      return { message: `Unsupported language "${language}"`, success: false, error: { code: 'invalid_request' } };
+    }
+
+    const session = await getSessionStore().get(sessionId);
+    if (!session) {
       return {
-        message:
-          'Please upload or capture an image first so I can analyze it for you. I need to see the image to provide accurate analysis and answer your questions.',
+        message: 'This conversation could not be found. Please start a new one.',
         success: false,
-        error: 'No image provided',
+        error: { code: 'not_found' },
       };
     }
 
-    // Build the prompt using system prompt
-    let textPrompt = SYSTEM_PROMPT;
+    const placement = placeTurn(session, turnOptions);
+    if ('error' in placement) {
+      return { message: placement.error, success: false, error: { code: 'not_found' } };
+    }
+
+    // Check if at least one image is provided. A regenerated answer uses the stored question and its images
+    const question = placement.question?.content ?? message;
+    const imageUrls = getImageUrls(placement.question?.imageUrls ?? images, session);
+    if (imageUrls.length === 0) {
+      return {
+        message: NO_IMAGE_MESSAGE,
+        success: false,
+        error: { code: 'invalid_request' },
+      };
+    }
+    if (imageUrls.length > getMaxImages()) {
+      return { message: getTooManyImagesMessage(), success: false, error: { code: 'invalid_request' } };
+    }
 
-    // Add conversation history if provided (limit to 3 exchanges for demo)
-    if (conversationHistory && Array.isArray(conversationHistory) && conversationHistory.length > 0) {
-      const recentHistory = conversationHistory
-        .slice(-10) // Keep last 10 messages (5 exchanges)
-        .filter((msg) => msg && typeof msg === 'object' && msg.role && msg.content)
-        .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-        .join('\n');
+    const request = await buildChatRequest(
+      question,
+      imageUrls,
+      settings,
+      persona.id,
+      toChatHistory(placement.history),
+      language,
+      getHighlights(highlights, imageUrls.length),
+    );
 
-      if (recentHistory.trim()) {
-        textPrompt += `Previous conversation context:\n${recentHistory}\n\n`;
-      }
+    const userMessage: Message = placement.question ?? {
+      id: getMessageId(session, turnOptions.userMessageId),
+      parentId: placement.parentId,
+      role: 'user',
+      content: question,
+      timestamp: new Date(),
+      imageUrl: imageUrls[0],
+      imageUrls,
+    };
+
+    // Transient failures are retried; anything else is reported with its cause
+    const generated = await withRetry((signal) => ai.generate({ ...request, abortSignal: signal }));
+    if (generated.error) {
+      return { message: getChatErrorMessage(generated.error), success: false, error: generated.error };
     }
 
-    // Add the user's question
-    textPrompt += `User Request: ${message}\n\nPlease analyze the provided image and respond to the user's specific question. Keep your response focused and under 600 words.`;
+    const { finishReason, safetyRatings } = getSafetyInfo(generated.value);
+    const answer: Message = {
+      id: getMessageId(session, turnOptions.assistantMessageId),
+      parentId: userMessage.id,
+      role: 'assistant',
+      content: generated.value.text,
+      timestamp: new Date(),
+      settings,
+      personaId: persona.id,
+      finishReason,
+      safetyRatings,
+    };
+    await recordTurn(session, placement.question ? [answer] : [userMessage, answer], {
+      images: imageUrls,
+      personaId: persona.id,
+      language,
+    });
 
-    // Extract the mime type from data URL
-    const [mimeTypePart] = imageUrl.split(',');
-    const mimeType = mimeTypePart.match(/data:([^;]+)/)?.[1] || 'image/jpeg';
+    return {
+      message: generated.value.text,
+      success: true,
+      finishReason,
+      safetyRatings,
+    };
+  } catch (error) {
+    console.error('Error in chatWithImage:', error);
+    const chatError = toChatError(error);
+    return { message: getChatErrorMessage(chatError), success: false, error: chatError };
+  }
+}
 
-    // Use multimodal parts array with URL format
-    const parts = [
-      { text: textPrompt },
-      {
-        media: {
-          url: imageUrl,
-          contentType: mimeType,
-        },
-      },
-    ];
+export async function analyzeImage(
+  sessionId: string,
+  images: string[],
+  focus?: string,
+  requestedSettings?: Partial<GenerationSettings>,
+  language: string = AUTO_LANGUAGE,
+  turnOptions: Omit<TurnOptions, 'regenerateId'> = {},
+): Promise<AnalysisResponse> {
+  try {
+    const { settings, error: settingsError } = resolveGenerationSettings(requestedSettings);
+    if (!settings) {
+      return { message: settingsError, success: false, error: { code: 'invalid_request' } };
+    }
+
+    if (!isSupportedLanguage(language)) {
+      return { message: `Unsupported language "${language}"`, success: false, error: { code: 'invalid_request' } };
+    }
+
+    const session = await getSessionStore().get(sessionId);
+    if (!session) {
+      return {
+        message: 'This conversation could not be found. Please start a new one.',
+        success: false,
+        error: { code: 'not_found' },
+      };
+    }
+
+    const placement = placeTurn(session, { parentId: turnOptions.parentId });
+    if ('error' in placement) {
+      return { message: placement.error, success: false, error: { code: 'not_found' } };
+    }
 
-    try {
-      // Generate AI response with token limit for concise responses
-      const response = await ai.generate({
-        prompt: parts,
+    const imageUrls = getImageUrls(images, session);
+    if (imageUrls.length === 0) {
+      return { message: NO_IMAGE_MESSAGE, success: false, error: { code: 'invalid_request' } };
+    }
+    if (imageUrls.length > getMaxImages()) {
+      return { message: getTooManyImagesMessage(), success: false, error: { code: 'invalid_request' } };
+    }
+
+    // Constrain the model to the ImageAnalysis schema
+    const prompt = await inlineStoredImages(buildAnalysisPrompt(imageUrls, focus, getLanguage(language)?.name));
+    const generated = await withRetry((signal) =>
+      ai.generate({
+        model: settings.model,
+        prompt,
+        output: { schema: ImageAnalysisSchema },
         config: {
-          temperature: 0.7,
-          maxOutputTokens: 400, // ~600 words limit for demo
+          temperature: 0.2,
+          maxOutputTokens: 2048,
+          safetySettings: getSafetySettings(),
         },
-      });
+        abortSignal: signal,
+      }),
+    );
+    // Transient failures were retried; anything else is reported with its cause
+    if (generated.error) {
+      return { message: getChatErrorMessage(generated.error), success: false, error: generated.error };
+    }
 
+    // Schema-constrained output is still model output, so validate before handing it to the client
+    const parsed = ImageAnalysisSchema.safeParse(generated.value.output);
+    if (!parsed.success) {
+      console.error('Structured analysis failed validation:', parsed.error.issues);
       return {
-        message: response.text,
-        success: true,
+        message: 'Gemini returned an analysis that could not be read. Please try again.',
+        success: false,
+        error: { code: 'unknown' },
       };
-    } catch (multimodalError) {
-      console.error('Multimodal generation failed:', multimodalError);
+    }
+
+    const userMessageId = getMessageId(session, turnOptions.userMessageId);
+    await recordTurn(
+      session,
+      [
+        {
+          id: userMessageId,
+          parentId: placement.parentId,
+          role: 'user',
+          content: focus || 'Structured analysis',
+          timestamp: new Date(),
+          imageUrl: imageUrls[0],
+          imageUrls,
+        },
+        {
+          id: getMessageId(session, turnOptions.assistantMessageId),
+          parentId: userMessageId,
+          role: 'assistant',
+          content: parsed.data.summary,
+          timestamp: new Date(),
+          analysis: parsed.data,
+          settings,
+        },
+      ],
+      { images: imageUrls, language },
+    );
+
+    return { success: true, analysis: parsed.data };
+  } catch (error) {
+    console.error('Error in analyzeImage:', error);
+    const chatError = toChatError(error);
+    return { message: getChatErrorMessage(chatError), success: false, error: chatError };
+  }
+}
+
+// Speech-to-text for browsers without the Web Speech API: the client records a clip and Gemini transcribes it
+export async function transcribeAudio(formData: FormData): Promise<TranscriptionResponse> {
+  try {
+    const file = formData.get('audio');
+    if (!(file instanceof File) || file.size === 0) {
+      return { success: false, error: 'No audio provided' };
+    }
+    if (file.size > MAX_AUDIO_BYTES) {
+      return { success: false, error: 'Recording is too long' };
+    }
+
+    const contentType = getAudioMimeType(file.type);
+    if (!ACCEPTED_AUDIO_TYPES.includes(contentType)) {
+      return { success: false, error: `Unsupported audio format "${file.type}"` };
+    }
+
+    const base64 = Buffer.from(await file.arrayBuffer()).toString('base64');
+    const response = await ai.generate({
+      prompt: [{ text: TRANSCRIPTION_PROMPT }, { media: { url: `data:${contentType};base64,${base64}`, contentType } }],
+      output: { schema: TranscriptionSchema },
+      config: {
+        temperature: 0,
+      },
+    });
+
+    const parsed = TranscriptionSchema.safeParse(response.output);
+    if (!parsed.success) {
+      console.error('Transcription failed validation:', parsed.error.issues);
+      return { success: false, error: 'Invalid transcription output' };
+    }
+
+    return { success: true, text: parsed.data.text.trim(), language: parsed.data.language };
+  } catch (error) {
+    console.error('Error transcribing audio:', error);
+    return { success: false, error: 'Failed to transcribe audio' };
+  }
+}
+
+// Live lens: check one camera frame against the user's standing question. Frames are not stored
+export async function analyzeLiveFrame(formData: FormData, request: LiveFrameRequest): Promise<LiveFrameResponse> {
+  try {
+    const question = request.question?.trim();
+    if (!question) {
+      return { success: false, error: 'Enter what to watch for' };
+    }
+    if (question.length > MAX_LIVE_QUESTION_LENGTH) {
+      return { success: false, error: `Keep the question under ${MAX_LIVE_QUESTION_LENGTH} characters` };
+    }
+
+    const { settings, error: settingsError } = resolveGenerationSettings(request.settings);
+    if (!settings) {
+      return { success: false, error: settingsError };
+    }
+
+    const language = request.language ?? AUTO_LANGUAGE;
+    if (!isSupportedLanguage(language)) {
+      return { success: false, error: `Unsupported language "${language}"` };
+    }
+
+    const frame = formData.get('frame');
+    if (!(frame instanceof File) || frame.size === 0) {
+      return { success: false, error: 'No frame provided' };
+    }
+    if (frame.size > MAX_LIVE_FRAME_BYTES || frame.type !== 'image/jpeg') {
+      return { success: false, error: 'Frames must be JPEG images under 1 MB' };
+    }
+
+    // The client spaces out frames too; this is the hard limit. It is keyed on the server's view of the
+    // client, since a client could send a new live ID with every frame
+    const retryAfterMs = takeLiveFrameSlot(getRateLimitKey(await headers()));
+    if (retryAfterMs > 0) {
+      console.warn(`Live lens frame rate limited (run ${request.liveId})`);
       return {
-        message: `I encountered an error while analyzing your image. This could be due to image format issues, connectivity problems, or temporary service unavailability. Please try again with a different image or check your connection.\n\nError details: ${
-          multimodalError instanceof Error ? multimodalError.message : 'Unknown error'
-        }`,
         success: false,
-        error: 'Multimodal generation failed',
+        retryAfterMs,
+        error: `Live lens is limited to ${LIVE_FRAMES_PER_MINUTE} frames a minute`,
       };
     }
+
+    const base64 = Buffer.from(await frame.arrayBuffer()).toString('base64');
+    const response = await ai.generate({
+      model: settings.model,
+      prompt: [
+        { text: buildLivePrompt(question, request.previousCaption, getLanguage(language)?.name) },
+        { media: { url: `data:image/jpeg;base64,${base64}`, contentType: 'image/jpeg' } },
+      ],
+      output: { schema: LiveCaptionSchema },
+      config: {
+        temperature: 0.2,
+        maxOutputTokens: 256,
+        safetySettings: getSafetySettings(),
+      },
+    });
+
+    const parsed = LiveCaptionSchema.safeParse(response.output);
+    if (!parsed.success) {
+      console.error('Live caption failed validation:', parsed.error.issues);
+      return { success: false, error: 'Invalid live caption output' };
+    }
+
+    const caption = parsed.data.caption.trim();
+    return { success: true, report: parsed.data.report && !!caption, caption };
   } catch (error) {
-    console.error('Error in chatWithImage:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error('Error analyzing live frame:', error);
+    // Say when the safety filters blocked a frame, e.g. one showing an audience, rather than a generic failure
+    const chatError = toChatError(error);
     return {
-      message: `I'm sorry, but I encountered an unexpected error while processing your request. This might be due to a temporary service issue or network problem.\n\nPlease try again in a moment. If the issue persists, try refreshing the page or using a different image.\n\nTechnical details: ${errorMessage}`,
       success: false,
-      error: 'Processing failed',
+      error: chatError.code === 'safety_blocked' ? getChatErrorMessage(chatError) : 'Failed to analyze frame',
     };
   }
 }
+
+// Server-side text-to-speech for an assistant reply (the latest one on the shown branch unless messageId is given).
+// Succeeds without an audioUrl when TTS_PROVIDER is not configured
+export async function synthesizeSpeech(
+  sessionId: string,
+  messageId?: string,
+): Promise<{ success: boolean; audioUrl?: string; error?: string }> {
+  try {
+    const synthesizer = getSpeechSynthesizer();
+    if (!synthesizer) {
+      return { success: true };
+    }
+
+    const store = getSessionStore();
+    const session = await store.get(sessionId);
+    if (!session) {
+      return { success: false, error: 'Session not found' };
+    }
+
+    const message = messageId
+      ? session.messages.find((msg) => msg.id === messageId)
+      : getBranch(session.messages, session.activeLeafId)
+          .reverse()
+          .find((msg) => msg.role === 'assistant');
+    if (!message || message.role !== 'assistant' || !message.content.trim()) {
+      return { success: false, error: 'No reply to read out' };
+    }
+    if (message.audioUrl) {
+      return { success: true, audioUrl: message.audioUrl };
+    }
+
+    const audioUrl = await saveAudio(await synthesizer.synthesize(toPlainText(message.content)));
+
+    // Synthesis takes a while, so the audio is added to the latest copy rather than the one read above
+    await store.update(sessionId, (latest) => ({
+      ...latest,
+      messages: latest.messages.map((msg) => (msg.id === message.id ? { ...msg, audioUrl } : msg)),
+    }));
+
+    return { success: true, audioUrl };
+  } catch (error) {
+    console.error('Error synthesizing speech:', error);
+    return { success: false, error: 'Failed to synthesize speech' };
+  }
+}
@@ -0,0 +1,52 @@
+import { getAudioStore, isValidAudioId } from '@/lib/speech';
+
+// Serves a synthesized reply. Backends with signed URLs redirect there instead of streaming the bytes.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidAudioId(id)) {
+    return new Response('Invalid audio id', { status: 400 });
+  }
+
+  const store = getAudioStore();
+
+  const signedUrl = await store.getSignedUrl(id);
+  if (signedUrl) {
+    return Response.redirect(signedUrl, 302);
+  }
+
+  const audio = await store.get(id);
+  if (!audio) {
+    return new Response('Audio not found', { status: 404 });
+  }
+
+  const headers = {
+    'Content-Type': audio.contentType,
+    'Accept-Ranges': 'bytes',
+    // IDs are never reused, so the bytes behind a URL never change
+    'Cache-Control': 'private, max-age=31536000, immutable',
+  };
+
+  // Browsers request byte ranges when the player seeks
+  const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    const size = audio.data.length;
+    const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+    if (start > end || start >= size) {
+      return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+    }
+
+    return new Response(new Uint8Array(audio.data.subarray(start, end + 1)), {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Range': `bytes ${start}-${end}/${size}`,
+        'Content-Length': String(end - start + 1),
+      },
+    });
+  }
+
+  return new Response(new Uint8Array(audio.data), {
+    headers: { ...headers, 'Content-Length': String(audio.data.length) },
+  });
+}
@@ -0,0 +1,231 @@
+import {
+  buildChatRequest,
+  getHighlights,
+  getImageUrls,
+  getMaxImages,
+  getTooManyImagesMessage,
+  NO_IMAGE_MESSAGE,
+  toChatHistory,
+} from '@/lib/chat';
+import { getChatErrorMessage, toChatError } from '@/lib/chat-errors';
+import { encodeChatStreamEvent, getReplyEnding } from '@/lib/chat-stream';
+import { ai } from '@/lib/genkit';
+import { AUTO_LANGUAGE, isSupportedLanguage } from '@/lib/languages';
+import { resolveGenerationSettings } from '@/lib/models';
+import { DEFAULT_PERSONA_ID, getPersona } from '@/lib/personas';
+import { withRetry } from '@/lib/retry';
+import { getSafetyInfo } from '@/lib/safety';
+import { getMessageId, getSessionStore, placeTurn, recordTurn } from '@/lib/session';
+import {
+  ChatErrorCode,
+  ChatResponse,
+  ChatStreamEvent,
+  GenerationSettings,
+  ImageHighlight,
+  Message,
+  TurnOptions,
+} from '@/types/conversation';
+
+// Turn options place the exchange in the conversation tree: a follow-up, an edited question or a regenerated answer
+interface StreamChatRequest extends TurnOptions {
+  sessionId: string;
+  message: string;
+  images: string[];
+  settings?: Partial<GenerationSettings>;
+  personaId?: string;
+  language?: string;
+  highlights?: ImageHighlight[];
+}
+
+// The reply should start well within this; a stalled request is cancelled and retried
+const FIRST_CHUNK_TIMEOUT_MS = 30_000;
+
+// HTTP status for a generation that failed before any text was sent
+const ERROR_STATUS: Record<ChatErrorCode, number> = {
+  rate_limited: 429,
+  safety_blocked: 422,
+  invalid_image: 422,
+  timeout: 504,
+  missing_api_key: 500,
+  unavailable: 503,
+  invalid_request: 400,
+  not_found: 404,
+  unknown: 500,
+};
+
+// Streams the assistant reply as ChatStreamEvent lines. Errors before the first chunk are returned as a ChatResponse.
+export async function POST(request: Request) {
+  let body: StreamChatRequest;
+  try {
+    body = await request.json();
+  } catch {
+    const response: ChatResponse = {
+      message: 'Invalid request body',
+      success: false,
+      error: { code: 'invalid_request' },
+    };
+    return Response.json(response, { status: 400 });
+  }
+
+  // Only models from the allowed list can be requested
+  const { settings, error: settingsError } = resolveGenerationSettings(body.settings);
+  if (!settings) {
+    const response: ChatResponse = { message: settingsError, success: false, error: { code: 'invalid_request' } };
+    return Response.json(response, { status: 400 });
+  }
+
+  const persona = getPersona(body.personaId ?? DEFAULT_PERSONA_ID);
+  if (!persona) {
+    const response: ChatResponse = {
+      message: `Unknown analysis mode "${body.personaId}"`,
+      success: false,
+      error: { code: 'invalid_request' },
+    };
+    return Response.json(response, { status: 400 });
+  }
+
+  const language = body.language ?? AUTO_LANGUAGE;
+  if (!isSupportedLanguage(language)) {
+    const response: ChatResponse = {
+      message: `Unsupported language "${body.language}"`,
+      success: false,
+      error: { code: 'invalid_request' },
+    };
+    return Response.json(response, { status: 400 });
+  }
+
+  const session = await getSessionStore().get(body.sessionId);
+  if (!session) {
+    const response: ChatResponse = {
+      message: 'This conversation could not be found. Please start a new one.',
+      success: false,
+      error: { code: 'not_found' },
+    };
+    return Response.json(response, { status: 404 });
+  }
+
+  const placement = placeTurn(session, body);
+  if ('error' in placement) {
+    const response: ChatResponse = { message: placement.error, success: false, error: { code: 'not_found' } };
+    return Response.json(response, { status: 404 });
+  }
+
+  // A regenerated answer is for the stored question, asked again with the images it was asked with
+  const message = placement.question?.content ?? body.message;
+  const imageUrls = getImageUrls(placement.question?.imageUrls ?? body.images, session);
+  if (imageUrls.length === 0) {
+    const response: ChatResponse = { message: NO_IMAGE_MESSAGE, success: false, error: { code: 'invalid_request' } };
+    return Response.json(response, { status: 400 });
+  }
+  if (imageUrls.length > getMaxImages()) {
+    const response: ChatResponse = {
+      message: getTooManyImagesMessage(),
+      success: false,
+      error: { code: 'invalid_request' },
+    };
+    return Response.json(response, { status: 400 });
+  }
+
+  const chatRequest = await buildChatRequest(
+    message,
+    imageUrls,
+    settings,
+    persona.id,
+    toChatHistory(placement.history),
+    language,
+    getHighlights(body.highlights, imageUrls.length),
+  );
+
+  // Wait for the first text before responding, so a failed start is retried and otherwise
+  // returned as a ChatResponse. Generation stops as soon as the client cancels the request
+  const started = await withRetry(
+    async (signal) => {
+      const { stream, response } = ai.generateStream({ ...chatRequest, abortSignal: signal });
+      const chunks = stream[Symbol.asyncIterator]();
+      let first = await chunks.next();
+      while (!first.done && !first.value.text) {
+        first = await chunks.next();
+      }
+      return { chunks, first, response };
+    },
+    { signal: request.signal, timeoutMs: FIRST_CHUNK_TIMEOUT_MS },
+  );
+  if (started.error) {
+    const response: ChatResponse = {
+      message: getChatErrorMessage(started.error),
+      success: false,
+      error: started.error,
+    };
+    return Response.json(response, { status: ERROR_STATUS[started.error.code] });
+  }
+  const { chunks, first, response } = started.value;
+
+  const question: Message = placement.question ?? {
+    id: getMessageId(session, body.userMessageId),
+    parentId: placement.parentId,
+    role: 'user',
+    content: message,
+    timestamp: new Date(),
+    imageUrl: imageUrls[0],
+    imageUrls,
+  };
+
+  const encoder = new TextEncoder();
+  const readable = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+      let text = '';
+      // Sent once the turn is saved: how the reply finished, or why it stopped early
+      let ending: ChatStreamEvent | null = null;
+
+      try {
+        for (let result = first; !result.done; result = await chunks.next()) {
+          if (result.value.text) {
+            text += result.value.text;
+            send({ type: 'text', text: result.value.text });
+          }
+        }
+        ending = { type: 'done', ...getSafetyInfo(await response) };
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('Streaming generation failed:', error);
+          const chatError = toChatError(error);
+          ending = { type: 'error', message: getChatErrorMessage(chatError), error: chatError };
+        }
+      }
+
+      // Store the exchange server-side, keeping partial text from a cancelled stream.
+      // Regenerating adds only the new answer, next to the earlier ones
+      const turn: Message[] = placement.question ? [] : [question];
+      if (text) {
+        turn.push({
+          id: getMessageId(session, body.assistantMessageId),
+          parentId: question.id,
+          role: 'assistant',
+          content: text,
+          timestamp: new Date(),
+          ...getReplyEnding(ending),
+          settings,
+          personaId: persona.id,
+        });
+      }
+      await recordTurn(session, turn, { images: imageUrls, personaId: persona.id, language }).catch((error) =>
+        console.error('Failed to save session:', error),
+      );
+
+      // Ended only once the turn is saved, so the client can immediately act on the stored reply.
+      // A cancelled request has no one left to tell
+      if (ending) {
+        send(ending);
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
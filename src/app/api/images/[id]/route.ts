@@ -0,0 +1,33 @@
+import { isValidImageId } from '@/lib/image-urls';
+import { getImageStore, ImageVariant } from '@/lib/images';
+
+// Serves a stored image by ID. Backends with signed URLs redirect there instead of streaming the bytes.
+// ?variant=thumbnail returns the small gallery preview
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isValidImageId(id)) {
+    return new Response('Invalid image id', { status: 400 });
+  }
+
+  const variant: ImageVariant =
+    new URL(request.url).searchParams.get('variant') === 'thumbnail' ? 'thumbnail' : 'original';
+  const store = getImageStore();
+
+  const signedUrl = await store.getSignedUrl(id, variant);
+  if (signedUrl) {
+    return Response.redirect(signedUrl, 302);
+  }
+
+  const image = await store.get(id, variant);
+  if (!image) {
+    return new Response('Image not found', { status: 404 });
+  }
+
+  return new Response(new Uint8Array(image.data), {
+    headers: {
+      'Content-Type': image.contentType,
+      // IDs are never reused, so the bytes behind a URL never change
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  });
+}
@@ -1,104 +1,843 @@
 'use client';
 
+import BoundingBoxOverlay from '@/components/BoundingBoxOverlay';
 import ChatInterface from '@/components/ChatInterface';
+import ConversationHistory from '@/components/ConversationHistory';
+import ImageDropZone from '@/components/ImageDropZone';
+import LanguagePicker from '@/components/LanguagePicker';
+import PersonaPicker from '@/components/PersonaPicker';
 import PhotoCapture from '@/components/PhotoCapture';
-import { Message } from '@/types/conversation';
+import SettingsPanel from '@/components/SettingsPanel';
+import { canRetry, getChatErrorMessage } from '@/lib/chat-errors';
+import { getReplyEnding, readChatStream } from '@/lib/chat-stream';
+import { getBranch, getLatestLeaf, getSiblings } from '@/lib/conversation-tree';
+import { exportConversation } from '@/lib/export';
+import { DEFAULT_MAX_IMAGES } from '@/lib/image-events';
+import { getPastedImages, shrinkImage } from '@/lib/image-files';
+import { getThumbnailUrl } from '@/lib/image-urls';
+import { AUTO_LANGUAGE } from '@/lib/languages';
+import { DEFAULT_SETTINGS, getModelOption } from '@/lib/models';
+import { DEFAULT_PERSONA_ID, getPersona } from '@/lib/personas';
+import {
+  BoundingBox,
+  ChatError,
+  ChatResponse,
+  ChatSessionSummary,
+  ChatStreamEvent,
+  DetectedObject,
+  ExportFormat,
+  GenerationSettings,
+  ImageHighlight,
+  ImageUpload,
+  LiveCaption,
+  Message,
+} from '@/types/conversation';
+import { ArrowUpTrayIcon, PlusIcon } from '@heroicons/react/24/outline';
 import Image from 'next/image';
-import { useState } from 'react';
-import { chatWithImage } from './actions/chat';
+import { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  analyzeImage,
+  analyzeLiveFrame,
+  createChatSession,
+  deleteChatSession,
+  getImageLimit,
+  getSessionHistory,
+  importChatSession,
+  listChatSessions,
+  renameChatSession,
+  selectBranch,
+  synthesizeSpeech,
+  updateSessionImages,
+  uploadImage,
+} from './actions/chat';
+
+const SETTINGS_STORAGE_KEY = 'lens-generation-settings';
+// Installed voices differ per device, so the chosen voice for each language is kept locally
+const VOICES_STORAGE_KEY = 'lens-voices';
+// The caption feed keeps only the most recent live lens results
+const MAX_LIVE_CAPTIONS = 50;
 
 export default function Home() {
   const [images, setImages] = useState<string[]>([]);
+  // The latest gallery, for uploads that finish after it changed; also updated as soon as it changes
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  // Gallery slots held by file batches that are still uploading
+  const pendingUploadsRef = useRef(0);
+  // Areas marked in the image editor, keyed by stored image URL
+  const [imageHighlights, setImageHighlights] = useState<Record<string, BoundingBox[]>>({});
+  // Images used together in one conversation; the server sets the limit
+  const [maxImages, setMaxImages] = useState(DEFAULT_MAX_IMAGES);
+  // A captured image waiting for confirmation because adding it would remove the oldest one
+  const [pendingImage, setPendingImage] = useState<{ imageUrl: string; highlights: BoundingBox[] } | null>(null);
+  // Every message of the conversation tree; only the branch ending at activeLeafId is shown
   const [messages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  // A question that got no answer, kept with its error until it is retried or another message is sent.
+  // Unless stored, the server never saw it, so nothing may be attached to it
+  const [failedTurn, setFailedTurn] = useState<{
+    question: Message;
+    stored: boolean;
+    message: string;
+    error: ChatError;
+    // Set when the question asked for a structured analysis, which is retried as one
+    analysisFocus?: string;
+  } | null>(null);
+  // Shown below the chat until the next message or image change; it is not part of the conversation
+  const [chatNotice, setChatNotice] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_SETTINGS);
+  const [personaId, setPersonaId] = useState(DEFAULT_PERSONA_ID);
+  const [language, setLanguage] = useState(AUTO_LANGUAGE);
+  const [voiceURIs, setVoiceURIs] = useState<Record<string, string>>({});
+  const [hoveredObject, setHoveredObject] = useState<DetectedObject | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<ImageUpload[]>([]);
+  const [prefill, setPrefill] = useState<{ text: string; nonce: number } | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [liveCaptions, setLiveCaptions] = useState<LiveCaption[]>([]);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const liveIdRef = useRef<string | null>(null);
+  const liveBackoffUntilRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Boxes come from the most recent structured analysis in the conversation
+  const branch = getBranch(messages, activeLeafId);
+  // Where each shown message sits among its alternatives, for messages that have any
+  const alternatives = Object.fromEntries(
+    branch.flatMap((msg) => {
+      const siblings = getSiblings(messages, msg);
+      return siblings.length > 1 ? [[msg.id, { index: siblings.indexOf(msg), count: siblings.length }]] : [];
+    }),
+  );
+  const analysisMessage = [...branch].reverse().find((msg) => msg.analysis);
+  const detections = analysisMessage?.analysis?.objects ?? [];
+  // Object indexes refer to the images the analysis was asked with, which may since have been added to or
+  // removed; match them to the gallery by URL so boxes never land on another image
+  const analyzedImages = branch.find((msg) => msg.id === analysisMessage?.parentId)?.imageUrls ?? [];
+  const getGalleryIndex = (object: DetectedObject) => images.indexOf(analyzedImages[object.imageIndex]);
+  const detectionsFor = (index: number) =>
+    index < 0 ? [] : detections.filter((object) => getGalleryIndex(object) === index);
+
+  const handleSettingsChange = (newSettings: GenerationSettings) => {
+    setSettings(newSettings);
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+  };
+
+  const handleVoiceChange = (voiceURI: string | undefined) => {
+    const updated = { ...voiceURIs };
+    if (voiceURI) {
+      updated[language] = voiceURI;
+    } else {
+      delete updated[language];
+    }
+    setVoiceURIs(updated);
+    localStorage.setItem(VOICES_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const refreshSessions = async () => {
+    const response = await listChatSessions();
+    if (response.success && response.sessions) {
+      setSessions(response.sessions);
+    } else {
+      console.error('Failed to list sessions:', response.error);
+    }
+  };
+
+  const loadSession = async (id: string) => {
+    const response = await getSessionHistory(id);
+    if (response.success && response.session) {
+      setSessionId(response.session.id);
+      setImages(response.session.images);
+      setMessages(response.session.messages);
+      setActiveLeafId(response.session.activeLeafId ?? null);
+      setChatNotice(null);
+      setPersonaId(response.session.personaId ?? DEFAULT_PERSONA_ID);
+      setLanguage(response.session.language ?? AUTO_LANGUAGE);
+      updateSessionUrl(response.session.id);
+    } else {
+      console.error('Failed to restore session:', response.error);
+      updateSessionUrl(null);
+    }
+  };
+
+  // The mount effect runs once, so it reaches the loaders through refs
+  const loadSessionRef = useRef(loadSession);
+  loadSessionRef.current = loadSession;
+  const refreshSessionsRef = useRef(refreshSessions);
+  refreshSessionsRef.current = refreshSessions;
+
+  // Restore a conversation from the ?session= URL parameter and load the history list
+  useEffect(() => {
+    const urlSessionId = new URLSearchParams(window.location.search).get('session');
+    if (urlSessionId) {
+      loadSessionRef.current(urlSessionId);
+    }
+    refreshSessionsRef.current();
+    getImageLimit().then(setMaxImages);
+
+    // Restore the last used generation settings, ignoring models that are no longer allowed
+    try {
+      const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+      if (saved && getModelOption(saved.model)) {
+        setSettings({ ...DEFAULT_SETTINGS, ...saved });
+      }
+    } catch (error) {
+      console.error('Failed to restore settings:', error);
+    }
+
+    try {
+      setVoiceURIs(JSON.parse(localStorage.getItem(VOICES_STORAGE_KEY) || '{}'));
+    } catch (error) {
+      console.error('Failed to restore voices:', error);
+    }
+  }, []);
+
+  // Keep the session in the URL so the conversation can be reloaded or shared
+  const updateSessionUrl = (id: string | null) => {
+    const url = new URL(window.location.href);
+    if (id) {
+      url.searchParams.set('session', id);
+    } else {
+      url.searchParams.delete('session');
+    }
+    window.history.replaceState(null, '', url);
+  };
+
+  // The server holds the history, so clearing the chat means starting a new session
+  const resetSession = () => {
+    setMessages([]);
+    setActiveLeafId(null);
+    setChatNotice(null);
+    setSessionId(null);
+    updateSessionUrl(null);
+  };
+
+  const ensureSession = async (): Promise<string | null> => {
+    if (sessionId) return sessionId;
+
+    const response = await createChatSession();
+    if (!response.success || !response.sessionId) {
+      console.error('Failed to create session:', response.error);
+      return null;
+    }
+    setSessionId(response.sessionId);
+    updateSessionUrl(response.sessionId);
+    return response.sessionId;
+  };
+
+  // Upload to the image store, which validates and normalizes the image; the gallery keeps only its URL.
+  // Full-resolution captures and photos over the upload limit are downscaled first
+  const storeImage = async (image: Blob): Promise<string | null> => {
+    const formData = new FormData();
+    formData.append('image', await shrinkImage(image));
+
+    const response = await uploadImage(formData);
+    if (!response.success || !response.imageUrl) {
+      console.error('Failed to upload image:', response.code, response.error);
+      setUploadError(response.error ?? 'Failed to upload image');
+      return null;
+    }
+    return response.imageUrl;
+  };
+
+  // Images are part of the conversation: once it has started, each change is posted as an entry
+  // and later questions are asked about the new set
+  const changeImages = async (nextImages: string[]) => {
+    imagesRef.current = nextImages;
+    setImages(nextImages);
+    setChatNotice(null);
+    if (!sessionId || branch.length === 0) return;
 
-  const handleImageCapture = (imageUrl: string) => {
-    if (imageUrl === '') {
+    try {
+      const response = await updateSessionImages(sessionId, nextImages, discardUnstoredQuestion(activeLeafId));
+      if (!response.success) {
+        console.error('Failed to update images:', response.error);
+        return;
+      }
+      if (response.message) {
+        const event = response.message;
+        setMessages((prev) => [...prev, event]);
+        setActiveLeafId(event.id);
+      }
+    } catch (error) {
+      console.error('Error updating images:', error);
+    }
+  };
+
+  const addImage = (imageUrl: string, highlights: BoundingBox[]) => {
+    if (highlights.length > 0) {
+      setImageHighlights((prev) => ({ ...prev, [imageUrl]: highlights }));
+    }
+    return changeImages([...images, imageUrl].slice(-maxImages));
+  };
+
+  const handleImageCapture = async (image: Blob | null, highlights: BoundingBox[] = []) => {
+    setUploadError(null);
+    setPendingImage(null);
+    if (!image) {
       // Clear all images
-      setImages([]);
-      setMessages([]);
+      setImageHighlights({});
+      await changeImages([]);
       return;
     }
 
-    // Add new image, enforcing 3-image limit for demo
-    setImages((prev) => {
-      const newImages = [...prev, imageUrl];
-      if (newImages.length > 3) {
-        // Remove oldest image if exceeding limit
-        return newImages.slice(-3);
+    const imageUrl = await storeImage(image);
+    if (!imageUrl) return;
+
+    // At the limit the oldest image would be removed, so ask first
+    if (images.length >= maxImages) {
+      setPendingImage({ imageUrl, highlights });
+      return;
+    }
+    await addImage(imageUrl, highlights);
+  };
+
+  const confirmPendingImage = async () => {
+    if (!pendingImage) return;
+    setPendingImage(null);
+    await addImage(pendingImage.imageUrl, pendingImage.highlights);
+  };
+
+  // Upload dropped, pasted or multi-selected files one after another, tracking each in the upload list.
+  // Files beyond the free gallery slots are listed as skipped rather than pushing out earlier images
+  const handleImageFiles = async (files: File[]) => {
+    setUploadError(null);
+    if (files.length === 0) {
+      setUploadError('Only image files can be added');
+      return;
+    }
+
+    // Slots are counted from the latest gallery, less those held by batches still uploading
+    const slots = Math.max(0, maxImages - imagesRef.current.length - pendingUploadsRef.current);
+    const batch: ImageUpload[] = files.map((file, index) =>
+      index < slots
+        ? { id: uuidv4(), name: file.name, status: 'queued' }
+        : {
+            id: uuidv4(),
+            name: file.name,
+            status: 'error',
+            error: `Only ${maxImages} images can be used at once. Remove one to add more.`,
+          },
+    );
+    setUploads((prev) => [...prev.filter((upload) => upload.status !== 'done'), ...batch]);
+
+    const updateUpload = (id: string, changes: Partial<ImageUpload>) =>
+      setUploads((prev) => prev.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+
+    const queued = files.slice(0, slots);
+    pendingUploadsRef.current += queued.length;
+    const imageUrls: string[] = [];
+    try {
+      for (const [index, file] of queued.entries()) {
+        const { id } = batch[index];
+        updateUpload(id, { status: 'uploading' });
+
+        // Photos over the upload limit are downscaled in the browser first
+        try {
+          const formData = new FormData();
+          formData.append('image', await shrinkImage(file), file.name);
+          const response = await uploadImage(formData);
+          if (response.success && response.imageUrl) {
+            imageUrls.push(response.imageUrl);
+            updateUpload(id, { status: 'done' });
+          } else {
+            console.error('Failed to upload image:', response.code, response.error);
+            updateUpload(id, { status: 'error', error: response.error ?? 'Failed to upload image' });
+          }
+        } catch (error) {
+          console.error('Error uploading image:', error);
+          updateUpload(id, { status: 'error', error: 'Failed to upload image' });
+        }
       }
-      return newImages;
+    } finally {
+      pendingUploadsRef.current -= queued.length;
+    }
+
+    // Finished files leave the list; failures stay until dismissed
+    setUploads((prev) => prev.filter((upload) => upload.status !== 'done'));
+    if (imageUrls.length === 0) return;
+
+    // Other images may have been added or removed while this batch uploaded
+    await changeImages([...imagesRef.current, ...imageUrls]);
+  };
+
+  // Paste screenshots anywhere on the page; text pastes are left alone
+  const handleImageFilesRef = useRef(handleImageFiles);
+  handleImageFilesRef.current = handleImageFiles;
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = getPastedImages(event.clipboardData);
+      if (files.length === 0) return;
+      event.preventDefault();
+      handleImageFilesRef.current(files);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const dismissUpload = (id: string) => {
+    setUploads((prev) => prev.filter((upload) => upload.id !== id));
+  };
+
+  const removeImage = (index: number) => changeImages(images.filter((_, i) => i !== index));
+
+  // Start over with no images and an empty conversation; the current one stays in the history
+  const handleNewConversation = () => {
+    if (isStreaming) return;
+    setImages([]);
+    setImageHighlights({});
+    setPendingImage(null);
+    resetSession();
+  };
+
+  // Marked areas for an image set, numbered by each image's position
+  const getImageHighlights = (imageUrls: string[]): ImageHighlight[] =>
+    imageUrls.flatMap((url, imageIndex) =>
+      (imageHighlights[url] ?? []).map((boundingBox) => ({ imageIndex, boundingBox })),
+    );
+
+  const handleSendMessage = (message: string) => sendMessage(message, { parentId: activeLeafId, images });
+
+  // Resend an edited question in place of the original, which stays reachable as a sibling
+  const handleEditMessage = (messageId: string, content: string) => {
+    const original = messages.find((msg) => msg.id === messageId);
+    if (!original) return;
+    sendMessage(content, { parentId: original.parentId ?? null, images: original.imageUrls ?? images });
+  };
+
+  // Ask the same question again; the new answer is added next to the earlier ones
+  const handleRegenerate = (messageId: string) => {
+    const answer = messages.find((msg) => msg.id === messageId);
+    const question = messages.find((msg) => msg.id === answer?.parentId);
+    if (!question) return;
+    sendMessage(question.content, {
+      parentId: question.parentId ?? null,
+      regenerate: question,
+      images: question.imageUrls ?? images,
     });
+  };
 
-    // Clear messages when new image is added
-    setMessages([]);
+  // Send a failed question again. A stored question is answered again; otherwise a new copy replaces it
+  const handleRetry = () => {
+    if (!failedTurn) return;
+    const { question, stored, analysisFocus } = failedTurn;
+    if (analysisFocus !== undefined) {
+      requestAnalysis(analysisFocus, { parentId: question.parentId ?? null, images: question.imageUrls ?? images });
+      return;
+    }
+    sendMessage(question.content, {
+      parentId: question.parentId ?? null,
+      regenerate: stored ? question : undefined,
+      images: question.imageUrls ?? images,
+    });
   };
 
-  const removeImage = (index: number) => {
-    setImages((prev) => prev.filter((_, i) => i !== index));
-    // Clear messages when images change
-    setMessages([]);
+  // Drop a failed question the server never stored, so the next message is attached to its parent instead.
+  // Returns the parent to use in place of parentId
+  const discardUnstoredQuestion = (parentId: string | null): string | null => {
+    if (!failedTurn || failedTurn.stored) return parentId;
+
+    const { question } = failedTurn;
+    const questionParentId = question.parentId ?? null;
+    setFailedTurn(null);
+    setMessages((prev) => prev.filter((msg) => msg.id !== question.id));
+    setActiveLeafId((leafId) => (leafId === question.id ? questionParentId : leafId));
+    return parentId === question.id ? questionParentId : parentId;
+  };
+
+  // Show the previous or next alternative of a message, along with the latest replies below it
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+    const message = messages.find((msg) => msg.id === messageId);
+    if (!message) return;
+    const siblings = getSiblings(messages, message);
+    const target = siblings[siblings.indexOf(message) + direction];
+    if (!target) return;
+
+    const leafId = getLatestLeaf(messages, target.id);
+    setActiveLeafId(leafId);
+    if (sessionId) {
+      selectBranch(sessionId, leafId).then((response) => {
+        if (!response.success) console.error('Failed to select branch:', response.error);
+      });
+    }
   };
 
-  const handleSendMessage = async (message: string) => {
-    if (images.length === 0) {
-      // Add a system message if no images are provided
-      const systemMessage: Message = {
-        id: Date.now().toString(),
-        role: 'assistant',
-        content: 'Please upload or capture an image first so I can analyze it for you.',
-        timestamp: new Date(),
-      };
-      setMessages([systemMessage]);
+  const sendMessage = async (
+    message: string,
+    {
+      parentId: requestedParentId,
+      regenerate,
+      images: imageUrls,
+    }: { parentId: string | null; regenerate?: Message; images: string[] },
+  ) => {
+    // Without images there is nothing to ask about. The conversation is kept as it is, since it may
+    // continue once an image is added again
+    if (imageUrls.length === 0) {
+      setChatNotice('Please upload or capture an image first so I can analyze it for you.');
       return;
     }
+    setChatNotice(null);
 
+    const parentId = discardUnstoredQuestion(requestedParentId);
     setIsLoading(true);
+    setFailedTurn(null);
 
-    // Add user message to local state
-    const userMessage: Message = {
-      id: Date.now().toString(),
+    // Add user message to local state, unless an existing question is being answered again.
+    // Client IDs are sent along so the server stores the messages under the same IDs
+    const question: Message = regenerate ?? {
+      id: uuidv4(),
+      parentId,
       role: 'user',
       content: message,
       timestamp: new Date(),
-      imageUrl: images[0], // Use first image for message display
+      imageUrl: imageUrls[0], // Use first image for message display
+      imageUrls, // Every image sent with this turn, in "Image N" order
     };
 
-    const updatedMessages = [...messages, userMessage];
-    setMessages(updatedMessages);
+    if (!regenerate) {
+      setMessages((prev) => [...prev, question]);
+    }
+    setActiveLeafId(question.id);
+
+    const aiMessageId = uuidv4();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsStreaming(true);
+
+    // Update the streamed assistant message in place, adding it on the first chunk
+    const updateAiMessage = (update: Partial<Message>) => {
+      setMessages((prev) => {
+        if (!prev.some((msg) => msg.id === aiMessageId)) {
+          const aiMessage: Message = {
+            id: aiMessageId,
+            parentId: question.id,
+            role: 'assistant',
+            content: '',
+            timestamp: new Date(),
+            status: 'streaming',
+            settings,
+            personaId,
+          };
+          return [...prev, { ...aiMessage, ...update }];
+        }
+        return prev.map((msg) => (msg.id === aiMessageId ? { ...msg, ...update } : msg));
+      });
+      setActiveLeafId(aiMessageId);
+    };
+
+    let streamedText = '';
+    // The server stores a new question once the reply starts streaming
+    let stored = Boolean(regenerate);
+    const fail = (message: string, error: ChatError) => setFailedTurn({ question, stored, message, error });
 
     try {
-      // Convert messages to conversation history format
-      const conversationHistory = updatedMessages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
-
-      // Include context about multiple images in the message
-      let enhancedMessage = message;
-      if (images.length > 1) {
-        enhancedMessage = `I have ${images.length} images to analyze. ${message}`;
+      const activeSessionId = await ensureSession();
+      if (!activeSessionId) {
+        fail(getChatErrorMessage({ code: 'unknown' }), { code: 'unknown' });
+        return;
       }
 
-      const response = await chatWithImage(enhancedMessage, images[0], conversationHistory);
+      const response = await fetch('/api/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: activeSessionId,
+          message,
+          images: imageUrls,
+          settings,
+          personaId,
+          language,
+          highlights: getImageHighlights(imageUrls),
+          parentId,
+          regenerateId: regenerate?.id,
+          userMessageId: question.id,
+          assistantMessageId: aiMessageId,
+        }),
+        signal: abortController.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorResponse: ChatResponse = await response.json().catch(() => ({
+          message: getChatErrorMessage({ code: 'unknown' }),
+          success: false,
+          error: { code: 'unknown' },
+        }));
+        const error = errorResponse.error ?? { code: 'unknown' };
+        console.error('Chat error:', error);
+        fail(errorResponse.message, error);
+        return;
+      }
+      stored = true;
 
+      // Render the assistant message as text arrives; the last event says how it ended
+      let ending: ChatStreamEvent | undefined;
+      for await (const event of readChatStream(response.body)) {
+        if (event.type === 'text') {
+          streamedText += event.text;
+          setIsLoading(false);
+          updateAiMessage({ content: streamedText });
+        } else {
+          ending = event;
+        }
+      }
+
+      if (ending?.type === 'error') {
+        console.error('Chat stream error:', ending.error);
+        if (!streamedText) {
+          fail(ending.message, ending.error);
+          return;
+        }
+      }
+      updateAiMessage({ content: streamedText, ...getReplyEnding(ending) });
+      if (ending?.type === 'done') {
+        attachSpeech(activeSessionId, aiMessageId);
+      }
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error('Error sending message:', error);
+      }
+      // Keep whatever partial text was received, marked as interrupted. Without any, the request
+      // did not get through
+      if (streamedText) {
+        updateAiMessage({ content: streamedText, status: 'interrupted' });
+      } else if (!abortController.signal.aborted) {
+        fail(getChatErrorMessage({ code: 'unavailable' }), { code: 'unavailable' });
+      } else if (!stored) {
+        // Stopped before the server stored the question, so it is dropped rather than left for replies to follow
+        setMessages((prev) => prev.filter((msg) => msg.id !== question.id));
+        setActiveLeafId(parentId);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsStreaming(false);
+      setIsLoading(false);
+      refreshSessions();
+    }
+  };
+
+  // Generate audio for a stored reply in the background; a no-op when server TTS is off
+  const attachSpeech = (activeSessionId: string, messageId: string) => {
+    setIsSynthesizing(true);
+    synthesizeSpeech(activeSessionId, messageId)
+      .then((response) => {
+        if (response.audioUrl) {
+          const { audioUrl } = response;
+          setMessages((prev) => prev.map((msg) => (msg.id === messageId ? { ...msg, audioUrl } : msg)));
+        } else if (!response.success) {
+          console.error('Speech error:', response.error);
+        }
+      })
+      .catch((error) => console.error('Error synthesizing speech:', error))
+      .finally(() => setIsSynthesizing(false));
+  };
+
+  const handleRequestAnalysis = (focus: string) => requestAnalysis(focus, { parentId: activeLeafId, images });
+
+  const requestAnalysis = async (
+    focus: string,
+    { parentId: requestedParentId, images: imageUrls }: { parentId: string | null; images: string[] },
+  ) => {
+    if (imageUrls.length === 0) return;
+
+    const parentId = discardUnstoredQuestion(requestedParentId);
+    setIsLoading(true);
+    setFailedTurn(null);
+    const question: Message = {
+      id: uuidv4(),
+      parentId,
+      role: 'user',
+      content: focus || 'Structured analysis',
+      timestamp: new Date(),
+      imageUrl: imageUrls[0],
+      imageUrls,
+    };
+    setMessages((prev) => [...prev, question]);
+    setActiveLeafId(question.id);
+
+    // The server stores the question only along with a successful analysis
+    const fail = (message: string, error: ChatError) =>
+      setFailedTurn({ question, stored: false, message, error, analysisFocus: focus });
+
+    try {
+      const activeSessionId = await ensureSession();
+      if (!activeSessionId) {
+        fail(getChatErrorMessage({ code: 'unknown' }), { code: 'unknown' });
+        return;
+      }
+
+      const aiMessageId = uuidv4();
+      const response = await analyzeImage(activeSessionId, imageUrls, focus || undefined, settings, language, {
+        parentId: question.parentId,
+        userMessageId: question.id,
+        assistantMessageId: aiMessageId,
+      });
       if (response.success) {
-        // Add AI response to local state
         const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
+          id: aiMessageId,
+          parentId: question.id,
           role: 'assistant',
-          content: response.message,
+          content: response.analysis.summary,
           timestamp: new Date(),
+          analysis: response.analysis,
+          settings,
         };
-
         setMessages((prev) => [...prev, aiMessage]);
+        setActiveLeafId(aiMessage.id);
+        attachSpeech(activeSessionId, aiMessage.id);
       } else {
-        console.error('Chat error:', response.error);
+        console.error('Analysis error:', response.error);
+        fail(response.message, response.error);
       }
     } catch (error) {
-      console.error('Error sending message:', error);
+      console.error('Error requesting analysis:', error);
+      fail(getChatErrorMessage({ code: 'unavailable' }), { code: 'unavailable' });
     } finally {
       setIsLoading(false);
+      refreshSessions();
+    }
+  };
+
+  // Each live run gets its own ID, so answers that arrive after it stopped are ignored
+  const handleLiveChange = (active: boolean) => {
+    setIsLive(active);
+    if (active) {
+      liveIdRef.current = uuidv4();
+      liveBackoffUntilRef.current = 0;
+      setLiveCaptions([]);
+      setLiveError(null);
+    } else {
+      liveIdRef.current = null;
+    }
+  };
+
+  const handleLiveFrame = async (frame: Blob, question: string) => {
+    const liveId = liveIdRef.current;
+    if (!liveId || Date.now() < liveBackoffUntilRef.current) return;
+
+    const formData = new FormData();
+    formData.append('frame', frame, 'frame.jpg');
+    try {
+      const response = await analyzeLiveFrame(formData, {
+        liveId,
+        question,
+        previousCaption: liveCaptions[liveCaptions.length - 1]?.text,
+        language,
+        settings,
+      });
+      // Ignore answers that arrive after the run was stopped
+      if (liveIdRef.current !== liveId) return;
+
+      if (response.retryAfterMs) {
+        liveBackoffUntilRef.current = Date.now() + response.retryAfterMs;
+      }
+      if (!response.success) {
+        setLiveError(response.error ?? 'Live lens failed');
+        return;
+      }
+
+      setLiveError(null);
+      if (response.report && response.caption) {
+        const caption: LiveCaption = { id: Date.now().toString(), text: response.caption, timestamp: new Date() };
+        setLiveCaptions((prev) => [...prev, caption].slice(-MAX_LIVE_CAPTIONS));
+      }
+    } catch (error) {
+      console.error('Error analyzing live frame:', error);
+      setLiveError('Live lens failed');
+    }
+  };
+
+  // Clicking a box pre-fills a follow-up question about that object
+  const handleObjectSelect = (object: DetectedObject) => {
+    const imageLabel = images.length > 1 ? ` in Image ${getGalleryIndex(object) + 1}` : '';
+    setPrefill({ text: `Tell me more about the ${object.label}${imageLabel}.`, nonce: Date.now() });
+  };
+
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSelectSession = (id: string) => {
+    if (isStreaming || id === sessionId) return;
+    loadSession(id);
+  };
+
+  const handleRenameSession = async (id: string, title: string) => {
+    const response = await renameChatSession(id, title);
+    if (!response.success) {
+      console.error('Failed to rename session:', response.error);
+    }
+    refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    const response = await deleteChatSession(id);
+    if (!response.success) {
+      console.error('Failed to delete session:', response.error);
+      return;
+    }
+    if (id === sessionId) {
+      setImages([]);
+      resetSession();
+    }
+    refreshSessions();
+  };
+
+  // Begin a fresh conversation that reuses the images of a past one
+  const handleStartFromImages = async (id: string) => {
+    if (isStreaming) return;
+    const response = await getSessionHistory(id);
+    if (response.success && response.session) {
+      resetSession();
+      setImages(response.session.images);
+    } else {
+      console.error('Failed to load session images:', response.error);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (branch.length === 0) return;
+
+    const summary = sessions.find((session) => session.id === sessionId);
+    try {
+      await exportConversation(
+        {
+          id: sessionId ?? 'unsaved',
+          title: summary?.title,
+          personaId,
+          language,
+          images,
+          messages,
+          activeLeafId: activeLeafId ?? undefined,
+          createdAt: summary?.createdAt ?? branch[0].timestamp,
+          updatedAt: summary?.updatedAt ?? branch[branch.length - 1].timestamp,
+        },
+        format,
+      );
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file || isStreaming) return;
+
+    const response = await importChatSession(await file.text());
+    if (response.success && response.sessionId) {
+      await loadSession(response.sessionId);
+      refreshSessions();
+    } else {
+      console.error('Failed to import session:', response.error);
+      alert(response.error ?? 'Failed to import conversation');
     }
   };
 
@@ -116,11 +855,14 @@ export default function Home() {
                 AI-powered image analysis demo
               </p>
             </div>
-            <div
-              className='flex items-center gap-2 px-3 py-1.5 rounded-full text-xs'
-              style={{ backgroundColor: 'var(--surface-elevated)', color: 'var(--text-secondary)' }}>
-              <div className='w-2 h-2 bg-green-500 rounded-full'></div>
-              Ready
+            <div className='flex items-center gap-3'>
+              <SettingsPanel settings={settings} onChange={handleSettingsChange} />
+              <div
+                className='flex items-center gap-2 px-3 py-1.5 rounded-full text-xs'
+                style={{ backgroundColor: 'var(--surface-elevated)', color: 'var(--text-secondary)' }}>
+                <div className='w-2 h-2 bg-green-500 rounded-full'></div>
+                Ready
+              </div>
             </div>
           </div>
         </div>
@@ -128,137 +870,305 @@ export default function Home() {
 
       {/* Main Content */}
       <main className='max-w-7xl mx-auto px-6 py-8'>
-        <div className='grid grid-cols-1 xl:grid-cols-2 gap-8'>
-          {/* Photo Section */}
-          <div
-            className='rounded-2xl shadow-lg border'
+        <div className='flex flex-col lg:flex-row gap-8'>
+          {/* History Sidebar */}
+          <aside
+            className='lg:w-72 flex-shrink-0 rounded-2xl shadow-lg border flex flex-col lg:max-h-[calc(100vh-200px)]'
             style={{
               backgroundColor: 'var(--surface)',
               borderColor: 'var(--border)',
               boxShadow: 'var(--shadow-lg)',
             }}>
-            <div className='p-6 border-b' style={{ borderColor: 'var(--border-light)' }}>
-              <div className='flex items-center gap-3'>
-                <div
-                  className='w-10 h-10 rounded-xl flex items-center justify-center'
-                  style={{ backgroundColor: 'var(--primary-light)' }}>
-                  <svg className='w-5 h-5' style={{ color: 'var(--primary)' }} fill='currentColor' viewBox='0 0 20 20'>
-                    <path
-                      fillRule='evenodd'
-                      d='M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z'
-                      clipRule='evenodd'
-                    />
-                  </svg>
-                </div>
-                <div>
-                  <h2 className='text-lg font-semibold' style={{ color: 'var(--text-primary)' }}>
-                    Image Input
-                  </h2>
-                  <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
-                    Upload or capture an image
-                  </p>
-                </div>
+            <div
+              className='p-6 border-b flex items-start justify-between gap-3'
+              style={{ borderColor: 'var(--border-light)' }}>
+              <div>
+                <h2 className='text-lg font-semibold' style={{ color: 'var(--text-primary)' }}>
+                  History
+                </h2>
+                <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
+                  Past conversations
+                </p>
               </div>
+              <div className='flex items-center gap-1'>
+                <button
+                  onClick={handleNewConversation}
+                  disabled={isStreaming}
+                  className='p-2 rounded-lg transition-colors hover:bg-black/5 disabled:opacity-50'
+                  style={{ color: 'var(--text-secondary)' }}
+                  title='New conversation'>
+                  <PlusIcon className='w-5 h-5' />
+                </button>
+                {/* Import a JSON export */}
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isStreaming}
+                  className='p-2 rounded-lg transition-colors hover:bg-black/5 disabled:opacity-50'
+                  style={{ color: 'var(--text-secondary)' }}
+                  title='Import conversation (JSON)'>
+                  <ArrowUpTrayIcon className='w-5 h-5' />
+                </button>
+              </div>
+              <input
+                ref={importInputRef}
+                type='file'
+                accept='application/json,.json'
+                onChange={handleImportFile}
+                className='hidden'
+              />
+            </div>
+            <div className='flex-1 min-h-0 overflow-y-auto scrollbar-thin'>
+              <ConversationHistory
+                sessions={sessions}
+                activeSessionId={sessionId}
+                onSelect={handleSelectSession}
+                onRename={handleRenameSession}
+                onDelete={handleDeleteSession}
+                onStartFromImages={handleStartFromImages}
+              />
             </div>
+          </aside>
 
-            <div className='p-6'>
-              {/* Image Gallery */}
-              {images.length > 0 && (
-                <div className='mb-6'>
-                  <div className='flex items-center justify-between mb-4'>
-                    <div className='flex items-center gap-2'>
-                      <h3 className='text-sm font-medium' style={{ color: 'var(--text-primary)' }}>
-                        Images for Analysis
-                      </h3>
-                      <span
-                        className='text-xs px-2 py-1 rounded-full'
-                        style={{ backgroundColor: 'var(--primary-light)', color: 'var(--primary)' }}>
-                        {images.length}/3
-                      </span>
+          <div className='flex-1 min-w-0 grid grid-cols-1 xl:grid-cols-2 gap-8'>
+            {/* Photo Section */}
+            <ImageDropZone onFiles={handleImageFiles}>
+              <div
+                className='rounded-2xl shadow-lg border'
+                style={{
+                  backgroundColor: 'var(--surface)',
+                  borderColor: 'var(--border)',
+                  boxShadow: 'var(--shadow-lg)',
+                }}>
+                <div className='p-6 border-b' style={{ borderColor: 'var(--border-light)' }}>
+                  <div className='flex items-center gap-3'>
+                    <div
+                      className='w-10 h-10 rounded-xl flex items-center justify-center'
+                      style={{ backgroundColor: 'var(--primary-light)' }}>
+                      <svg
+                        className='w-5 h-5'
+                        style={{ color: 'var(--primary)' }}
+                        fill='currentColor'
+                        viewBox='0 0 20 20'>
+                        <path
+                          fillRule='evenodd'
+                          d='M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z'
+                          clipRule='evenodd'
+                        />
+                      </svg>
+                    </div>
+                    <div>
+                      <h2 className='text-lg font-semibold' style={{ color: 'var(--text-primary)' }}>
+                        Image Input
+                      </h2>
+                      <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
+                        Upload or capture an image
+                      </p>
                     </div>
-                    {images.length >= 3 && (
-                      <span className='text-xs' style={{ color: 'var(--text-muted)' }}>
-                        Demo limit reached
-                      </span>
-                    )}
                   </div>
-                  <div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4'>
-                    {images.map((imageUrl, index) => (
-                      <div key={index} className='relative group'>
-                        <div
-                          className='aspect-square rounded-xl overflow-hidden border'
-                          style={{ borderColor: 'var(--border)' }}>
-                          <Image
-                            src={imageUrl}
-                            alt={`Image ${index + 1}`}
-                            width={200}
-                            height={200}
-                            className='w-full h-full object-cover'
-                            unoptimized
-                          />
+                </div>
+
+                <div className='p-6'>
+                  {/* Image Gallery */}
+                  {images.length > 0 && (
+                    <div className='mb-6'>
+                      <div className='flex items-center justify-between mb-4'>
+                        <div className='flex items-center gap-2'>
+                          <h3 className='text-sm font-medium' style={{ color: 'var(--text-primary)' }}>
+                            Images for Analysis
+                          </h3>
+                          <span
+                            className='text-xs px-2 py-1 rounded-full'
+                            style={{ backgroundColor: 'var(--primary-light)', color: 'var(--primary)' }}>
+                            {images.length}/{maxImages}
+                          </span>
                         </div>
+                        {images.length >= maxImages && (
+                          <span className='text-xs' style={{ color: 'var(--text-muted)' }}>
+                            Limit reached
+                          </span>
+                        )}
+                      </div>
+                      <div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4'>
+                        {images.map((imageUrl, index) => {
+                          // Count how many questions this image was sent with
+                          const turnCount = branch.filter((msg) => msg.imageUrls?.includes(imageUrl)).length;
+
+                          return (
+                            <div key={index} className='relative group'>
+                              <div
+                                className='relative aspect-square rounded-xl overflow-hidden border'
+                                style={{ borderColor: 'var(--border)' }}>
+                                <Image
+                                  src={getThumbnailUrl(imageUrl)}
+                                  alt={`Image ${index + 1}`}
+                                  width={200}
+                                  height={200}
+                                  className='w-full h-full object-cover'
+                                  unoptimized
+                                />
+                                {detectionsFor(index).length > 0 && (
+                                  <BoundingBoxOverlay
+                                    src={imageUrl}
+                                    objects={detectionsFor(index)}
+                                    hoveredObject={hoveredObject}
+                                    onHover={setHoveredObject}
+                                    onSelect={handleObjectSelect}
+                                  />
+                                )}
+                              </div>
+                              <div className='absolute bottom-2 left-2 flex gap-1'>
+                                <span
+                                  className='text-xs px-2 py-0.5 rounded-full font-medium'
+                                  style={{ backgroundColor: 'var(--surface)', color: 'var(--text-primary)' }}>
+                                  Image {index + 1}
+                                </span>
+                                {turnCount > 0 && (
+                                  <span
+                                    className='text-xs px-2 py-0.5 rounded-full'
+                                    style={{ backgroundColor: 'var(--primary-light)', color: 'var(--primary)' }}
+                                    title='Questions this image was analyzed with'>
+                                    {turnCount} {turnCount === 1 ? 'turn' : 'turns'}
+                                  </span>
+                                )}
+                              </div>
+                              <button
+                                onClick={() => removeImage(index)}
+                                className='absolute -top-2 -right-2 w-6 h-6 rounded-full bg-red-500 text-white flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600'
+                                title='Remove image'>
+                                ×
+                              </button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Confirm before a new image pushes out the oldest one */}
+                  {pendingImage && (
+                    <div
+                      className='mb-4 p-3 rounded-xl border flex flex-wrap items-center justify-between gap-3 text-sm'
+                      style={{ borderColor: 'rgb(217 119 6 / 0.4)', backgroundColor: 'rgb(217 119 6 / 0.1)' }}
+                      role='alert'>
+                      <span style={{ color: 'var(--text-primary)' }}>
+                        Image limit reached ({maxImages}). Adding this image removes Image 1.
+                      </span>
+                      <div className='flex gap-2'>
+                        <button
+                          onClick={() => setPendingImage(null)}
+                          className='px-3 py-1.5 rounded-lg text-xs font-medium border'
+                          style={{ borderColor: 'var(--border)', color: 'var(--text-secondary)' }}>
+                          Cancel
+                        </button>
                         <button
-                          onClick={() => removeImage(index)}
-                          className='absolute -top-2 -right-2 w-6 h-6 rounded-full bg-red-500 text-white flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600'
-                          title='Remove image'>
-                          ×
+                          onClick={confirmPendingImage}
+                          className='px-3 py-1.5 rounded-lg text-xs font-medium text-white'
+                          style={{ backgroundColor: 'var(--primary)' }}>
+                          Replace Image 1
                         </button>
                       </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+                    </div>
+                  )}
 
-              <PhotoCapture
-                onImageCapture={handleImageCapture}
-                currentImage={images.length > 0 ? images[images.length - 1] : ''}
-                disabled={images.length >= 3}
-              />
-            </div>
-          </div>
+                  <PhotoCapture
+                    onImageCapture={handleImageCapture}
+                    error={uploadError}
+                    currentImage={images.length > 0 ? images[images.length - 1] : ''}
+                    onImageFiles={handleImageFiles}
+                    uploads={uploads}
+                    onDismissUpload={dismissUpload}
+                    detections={detectionsFor(images.length - 1)}
+                    hoveredObject={hoveredObject}
+                    onObjectHover={setHoveredObject}
+                    onObjectSelect={handleObjectSelect}
+                    onLiveFrame={handleLiveFrame}
+                    onLiveChange={handleLiveChange}
+                  />
+                </div>
+              </div>
+            </ImageDropZone>
 
-          {/* Chat Section */}
-          <div
-            className='rounded-2xl shadow-lg border flex flex-col h-full'
-            style={{
-              backgroundColor: 'var(--surface)',
-              borderColor: 'var(--border)',
-              boxShadow: 'var(--shadow-lg)',
-              height: 'calc(100vh - 200px)', // Fixed height for proper scrolling
-              minHeight: '600px',
-            }}>
-            <div className='p-6 border-b' style={{ borderColor: 'var(--border-light)' }}>
-              <div className='flex items-center gap-3'>
-                <div
-                  className='w-10 h-10 rounded-xl flex items-center justify-center'
-                  style={{ backgroundColor: 'var(--accent)' }}>
-                  <svg className='w-5 h-5 text-white' fill='currentColor' viewBox='0 0 20 20'>
-                    <path
-                      fillRule='evenodd'
-                      d='M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z'
-                      clipRule='evenodd'
-                    />
-                  </svg>
+            {/* Chat Section */}
+            <ImageDropZone onFiles={handleImageFiles}>
+              <div
+                className='rounded-2xl shadow-lg border flex flex-col h-full'
+                style={{
+                  backgroundColor: 'var(--surface)',
+                  borderColor: 'var(--border)',
+                  boxShadow: 'var(--shadow-lg)',
+                  height: 'calc(100vh - 200px)', // Fixed height for proper scrolling
+                  minHeight: '600px',
+                }}>
+                <div className='p-6 border-b' style={{ borderColor: 'var(--border-light)' }}>
+                  <div className='flex items-center gap-3'>
+                    <div
+                      className='w-10 h-10 flex-shrink-0 rounded-xl flex items-center justify-center'
+                      style={{ backgroundColor: 'var(--accent)' }}>
+                      <svg className='w-5 h-5 text-white' fill='currentColor' viewBox='0 0 20 20'>
+                        <path
+                          fillRule='evenodd'
+                          d='M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z'
+                          clipRule='evenodd'
+                        />
+                      </svg>
+                    </div>
+                    <div>
+                      <h2 className='text-lg font-semibold' style={{ color: 'var(--text-primary)' }}>
+                        AI Analysis
+                      </h2>
+                      <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
+                        Chat about the image content
+                      </p>
+                    </div>
+                    {/* Switching persona keeps the conversation; only later replies use the new mode */}
+                    <div className='ml-auto flex items-center gap-2'>
+                      <LanguagePicker
+                        language={language}
+                        voiceURI={voiceURIs[language]}
+                        onLanguageChange={setLanguage}
+                        onVoiceChange={handleVoiceChange}
+                        disabled={isStreaming}
+                      />
+                      <PersonaPicker personaId={personaId} onChange={setPersonaId} disabled={isStreaming} />
+                    </div>
+                  </div>
                 </div>
-                <div>
-                  <h2 className='text-lg font-semibold' style={{ color: 'var(--text-primary)' }}>
-                    AI Analysis
-                  </h2>
-                  <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
-                    Chat about the image content
-                  </p>
+
+                <div className='flex flex-col flex-1 min-h-0 overflow-y-auto'>
+                  <ChatInterface
+                    messages={branch}
+                    alternatives={alternatives}
+                    starters={getPersona(personaId)?.starters}
+                    onExport={handleExport}
+                    onSendMessage={handleSendMessage}
+                    onEditMessage={handleEditMessage}
+                    onRegenerate={handleRegenerate}
+                    onSwitchBranch={handleSwitchBranch}
+                    error={
+                      failedTurn?.question.id === activeLeafId
+                        ? { message: failedTurn.message, canRetry: canRetry(failedTurn.error) }
+                        : null
+                    }
+                    onRetry={handleRetry}
+                    notice={chatNotice}
+                    isLoading={isLoading}
+                    isStreaming={isStreaming}
+                    isSynthesizing={isSynthesizing}
+                    isLive={isLive}
+                    liveCaptions={liveCaptions}
+                    liveError={liveError}
+                    onClearLiveCaptions={() => setLiveCaptions([])}
+                    language={language}
+                    voiceURI={voiceURIs[language]}
+                    onStopStreaming={handleStopStreaming}
+                    onRequestAnalysis={handleRequestAnalysis}
+                    highlightTerm={hoveredObject?.label}
+                    prefill={prefill}
+                    currentImage={images.length > 0 ? images[0] : ''}
+                  />
                 </div>
               </div>
-            </div>
-
-            <div className='flex flex-col flex-1 min-h-0 overflow-y-auto'>
-              <ChatInterface
-                messages={messages}
-                onSendMessage={handleSendMessage}
-                isLoading={isLoading}
-                currentImage={images.length > 0 ? images[0] : ''}
-              />
-            </div>
+            </ImageDropZone>
           </div>
         </div>
       </main>
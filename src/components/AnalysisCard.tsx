@@ -0,0 +1,145 @@
+'use client';
+
+import { ImageAnalysis } from '@/types/conversation';
+import { ClipboardDocumentIcon, ShieldExclamationIcon } from '@heroicons/react/24/outline';
+import { useState } from 'react';
+
+interface AnalysisCardProps {
+  analysis: ImageAnalysis;
+  highlightTerm?: string;
+}
+
+const SAFETY_LABELS: Record<keyof ImageAnalysis['safety'], string> = {
+  containsPeople: 'People',
+  containsFaces: 'Faces',
+  containsPersonalInfo: 'Personal info',
+  adultContent: 'Adult content',
+  violence: 'Violence',
+};
+
+export default function AnalysisCard({ analysis, highlightTerm }: AnalysisCardProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyJson = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(analysis, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy analysis:', error);
+    }
+  };
+
+  const raisedFlags = (Object.keys(SAFETY_LABELS) as Array<keyof ImageAnalysis['safety']>).filter(
+    (flag) => analysis.safety[flag],
+  );
+
+  return (
+    <div className='space-y-4 text-sm'>
+      <div className='flex items-start justify-between gap-3'>
+        <p className='leading-relaxed'>{analysis.summary}</p>
+        <button
+          onClick={copyJson}
+          className='flex-shrink-0 flex items-center gap-1 px-2 py-1 rounded-lg text-xs border'
+          style={{ borderColor: 'var(--border)', color: 'var(--text-secondary)' }}
+          title='Copy JSON'>
+          <ClipboardDocumentIcon className='w-4 h-4' />
+          {copied ? 'Copied' : 'JSON'}
+        </button>
+      </div>
+
+      {/* Scene tags */}
+      {analysis.sceneTags.length > 0 && (
+        <div className='flex flex-wrap gap-1.5'>
+          {analysis.sceneTags.map((tag) => (
+            <span
+              key={tag}
+              className='text-xs px-2 py-0.5 rounded-full'
+              style={{ backgroundColor: 'var(--primary-light)', color: 'var(--primary)' }}>
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Detected objects */}
+      {analysis.objects.length > 0 && (
+        <section>
+          <h4 className='text-xs font-semibold uppercase tracking-wide mb-2' style={{ color: 'var(--text-muted)' }}>
+            Objects ({analysis.objects.length})
+          </h4>
+          <ul className='space-y-1'>
+            {analysis.objects.map((object, index) => (
+              <li
+                key={index}
+                className='flex items-center justify-between gap-3 rounded px-1 -mx-1'
+                style={{
+                  backgroundColor:
+                    highlightTerm && object.label.toLowerCase() === highlightTerm.toLowerCase()
+                      ? 'rgb(217 119 6 / 0.25)'
+                      : 'transparent',
+                }}>
+                <span>{object.label}</span>
+                <span className='text-xs' style={{ color: 'var(--text-muted)' }}>
+                  Image {object.imageIndex + 1} · {Math.round(object.confidence * 100)}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* OCR text */}
+      {analysis.textBlocks.length > 0 && (
+        <section>
+          <h4 className='text-xs font-semibold uppercase tracking-wide mb-2' style={{ color: 'var(--text-muted)' }}>
+            Text
+          </h4>
+          <div className='space-y-1.5'>
+            {analysis.textBlocks.map((block, index) => (
+              <pre
+                key={index}
+                className='whitespace-pre-wrap font-mono text-xs p-2 rounded-lg'
+                style={{ backgroundColor: 'var(--background)', border: '1px solid var(--border-light)' }}>
+                {block.text}
+              </pre>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Dominant colors */}
+      {analysis.dominantColors.length > 0 && (
+        <section>
+          <h4 className='text-xs font-semibold uppercase tracking-wide mb-2' style={{ color: 'var(--text-muted)' }}>
+            Colors
+          </h4>
+          <div className='flex flex-wrap gap-2'>
+            {analysis.dominantColors.map((color) => (
+              <div key={color.hex} className='flex items-center gap-1.5' title={`${Math.round(color.coverage * 100)}%`}>
+                <span
+                  className='w-4 h-4 rounded border'
+                  style={{ backgroundColor: color.hex, borderColor: 'var(--border)' }}
+                />
+                <span className='text-xs'>{color.name}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Safety flags */}
+      <section className='flex items-center gap-2 text-xs'>
+        <ShieldExclamationIcon
+          className='w-4 h-4'
+          style={{ color: raisedFlags.length > 0 ? 'var(--warning)' : 'var(--success)' }}
+        />
+        {raisedFlags.length > 0 ? (
+          <span>Contains: {raisedFlags.map((flag) => SAFETY_LABELS[flag]).join(', ')}</span>
+        ) : (
+          <span style={{ color: 'var(--text-muted)' }}>No safety flags</span>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { ArrowDownTrayIcon, PauseIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { useEffect, useRef, useState } from 'react';
+
+interface AudioPlayerProps {
+  src: string;
+}
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds)) return '0:00';
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// Compact player for server-generated replies: play/pause, seek, speed and download
+export default function AudioPlayer({ src }: AudioPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRate] = useState(1);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = rate;
+    }
+  }, [rate]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      // Stop any browser speech that may still be reading another message
+      window.speechSynthesis?.cancel();
+      audio.play().catch((error) => console.error('Error playing audio:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (value: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = value;
+      setCurrentTime(value);
+    }
+  };
+
+  const cycleRate = () => {
+    setRate((prev) => PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(prev) + 1) % PLAYBACK_RATES.length]);
+  };
+
+  return (
+    <div className='flex items-center gap-2 mt-3 text-xs'>
+      <audio
+        ref={audioRef}
+        src={src}
+        preload='metadata'
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+
+      <button
+        onClick={togglePlay}
+        className='p-1.5 rounded-lg hover:bg-white/10 dark:hover:bg-slate-600/30'
+        title={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? <PauseIcon className='w-4 h-4' /> : <PlayIcon className='w-4 h-4' />}
+      </button>
+
+      <input
+        type='range'
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={currentTime}
+        onChange={(e) => handleSeek(Number(e.target.value))}
+        className='flex-1 min-w-0 h-1 cursor-pointer'
+        style={{ accentColor: 'var(--primary)' }}
+        aria-label='Seek'
+      />
+
+      <span className='tabular-nums opacity-70 whitespace-nowrap'>
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+
+      <button
+        onClick={cycleRate}
+        className='px-1.5 py-1 rounded-lg tabular-nums hover:bg-white/10 dark:hover:bg-slate-600/30'
+        title='Playback speed'>
+        {rate}x
+      </button>
+
+      <a
+        href={src}
+        download='reply.wav'
+        className='p-1.5 rounded-lg hover:bg-white/10 dark:hover:bg-slate-600/30'
+        title='Download audio'>
+        <ArrowDownTrayIcon className='w-4 h-4' />
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { DetectedObject } from '@/types/conversation';
+import { useEffect, useRef, useState } from 'react';
+
+interface BoundingBoxOverlayProps {
+  src: string;
+  objects: DetectedObject[];
+  hoveredObject?: DetectedObject | null;
+  onHover?: (object: DetectedObject | null) => void;
+  onSelect?: (object: DetectedObject) => void;
+  fit?: 'cover' | 'contain';
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Draws labelled boxes over an image; place inside the image's `relative` container
+export default function BoundingBoxOverlay({
+  src,
+  objects,
+  hoveredObject,
+  onHover,
+  onSelect,
+  fit = 'cover',
+}: BoundingBoxOverlayProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState<Size | null>(null);
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+
+  // Track the rendered size of the image container
+  useEffect(() => {
+    const element = overlayRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Load the intrinsic size so boxes follow the object-fit crop or letterbox
+  useEffect(() => {
+    const img = new window.Image();
+    img.onload = () => setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = src;
+  }, [src]);
+
+  const toStyle = (object: DetectedObject) => {
+    if (!containerSize || !naturalSize) return { display: 'none' };
+
+    const scale =
+      fit === 'cover'
+        ? Math.max(containerSize.width / naturalSize.width, containerSize.height / naturalSize.height)
+        : Math.min(containerSize.width / naturalSize.width, containerSize.height / naturalSize.height);
+    const renderedWidth = naturalSize.width * scale;
+    const renderedHeight = naturalSize.height * scale;
+    const offsetX = (containerSize.width - renderedWidth) / 2;
+    const offsetY = (containerSize.height - renderedHeight) / 2;
+    const { x, y, width, height } = object.boundingBox;
+
+    return {
+      left: offsetX + x * renderedWidth,
+      top: offsetY + y * renderedHeight,
+      width: width * renderedWidth,
+      height: height * renderedHeight,
+    };
+  };
+
+  return (
+    <div ref={overlayRef} className='absolute inset-0 overflow-hidden pointer-events-none'>
+      {objects.map((object, index) => {
+        const isHovered = object === hoveredObject;
+
+        return (
+          <button
+            key={index}
+            type='button'
+            onMouseEnter={() => onHover?.(object)}
+            onMouseLeave={() => onHover?.(null)}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect?.(object);
+            }}
+            className='absolute border-2 rounded-sm transition-colors duration-150 pointer-events-auto'
+            style={{
+              ...toStyle(object),
+              borderColor: isHovered ? 'var(--warning)' : 'var(--primary)',
+              backgroundColor: isHovered ? 'rgb(217 119 6 / 0.15)' : 'transparent',
+            }}
+            title={`Ask about ${object.label}`}>
+            <span
+              className='absolute top-0 left-0 px-1.5 py-0.5 rounded-br text-[10px] font-medium text-white whitespace-nowrap'
+              style={{ backgroundColor: isHovered ? 'var(--warning)' : 'var(--primary)' }}>
+              {object.label}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
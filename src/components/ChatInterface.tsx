@@ -1,21 +1,120 @@
 'use client';
 
-import { Message } from '@/types/conversation';
-import { MicrophoneIcon, PaperAirplaneIcon, PencilIcon, SpeakerWaveIcon } from '@heroicons/react/24/outline';
-import { useEffect, useRef, useState } from 'react';
+import { getThumbnailUrl } from '@/lib/image-urls';
+import { AUTO_LANGUAGE, createUtterance } from '@/lib/languages';
+import { toPlainText } from '@/lib/markdown';
+import { getModelOption } from '@/lib/models';
+import { getPersona } from '@/lib/personas';
+import { describeSafetyBlock, getFlaggedRatings, SAFETY_CATEGORY_LABELS } from '@/lib/safety';
+import { ExportFormat, LiveCaption, Message } from '@/types/conversation';
+import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ChatBubbleLeftRightIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  CodeBracketSquareIcon,
+  ExclamationTriangleIcon,
+  MicrophoneIcon,
+  PaperAirplaneIcon,
+  PencilIcon,
+  PhotoIcon,
+  ShieldExclamationIcon,
+  SpeakerWaveIcon,
+  StopIcon,
+} from '@heroicons/react/24/outline';
+import Image from 'next/image';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import AnalysisCard from './AnalysisCard';
+import AudioPlayer from './AudioPlayer';
+import ConversationMode from './ConversationMode';
+import Markdown from './Markdown';
 import VoiceInput from './VoiceInput';
 
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'Single file with images inline' },
+  { format: 'markdown-zip', label: 'Markdown + images (.zip)', description: 'Images as separate files' },
+  { format: 'json', label: 'JSON', description: 'Can be imported to restore the session' },
+  { format: 'print', label: 'Print / PDF', description: 'Printable report' },
+];
+
+// 'conversation' is the hands-free loop that listens, sends and reads answers aloud
+type InputMode = 'text' | 'voice' | 'conversation';
+
+const INPUT_MODES: { mode: InputMode; label: string; icon: typeof PencilIcon }[] = [
+  { mode: 'text', label: 'Type', icon: PencilIcon },
+  { mode: 'voice', label: 'Voice', icon: MicrophoneIcon },
+  { mode: 'conversation', label: 'Talk', icon: ChatBubbleLeftRightIcon },
+];
+
 interface ChatInterfaceProps {
+  // The branch of the conversation being shown
   messages: Message[];
+  // Position among its alternatives (edits or regenerated answers) for messages that have any
+  alternatives?: Record<string, { index: number; count: number }>;
   onSendMessage: (message: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+  // Why the last question got no answer, with a retry button when sending it again could help
+  error?: { message: string; canRetry: boolean } | null;
+  onRetry?: () => void;
+  // A passing note below the conversation that is not part of it, e.g. that an image is needed first
+  notice?: string | null;
   isLoading: boolean;
+  isStreaming?: boolean;
+  // Reply audio is being generated on the server
+  isSynthesizing?: boolean;
+  // Conversation language ('auto' or a BCP-47 code) and the chosen browser voice for it
+  language?: string;
+  voiceURI?: string;
+  // Live lens caption feed
+  isLive?: boolean;
+  liveCaptions?: LiveCaption[];
+  liveError?: string | null;
+  onClearLiveCaptions?: () => void;
+  onStopStreaming?: () => void;
+  onRequestAnalysis?: (focus: string) => void;
+  highlightTerm?: string;
+  prefill?: { text: string; nonce: number } | null;
+  starters?: string[];
+  onExport?: (format: ExportFormat) => void;
   currentImage?: string;
 }
 
-export default function ChatInterface({ messages, onSendMessage, isLoading, currentImage }: ChatInterfaceProps) {
+export default function ChatInterface({
+  messages,
+  alternatives = {},
+  onSendMessage,
+  onEditMessage,
+  onRegenerate,
+  onSwitchBranch,
+  error,
+  onRetry,
+  notice,
+  isLoading,
+  isStreaming = false,
+  isSynthesizing = false,
+  language = AUTO_LANGUAGE,
+  voiceURI,
+  isLive = false,
+  liveCaptions = [],
+  liveError,
+  onClearLiveCaptions,
+  onStopStreaming,
+  onRequestAnalysis,
+  highlightTerm,
+  prefill,
+  starters = [],
+  onExport,
+  currentImage,
+}: ChatInterfaceProps) {
   const [inputText, setInputText] = useState('');
-  const [isVoiceMode, setIsVoiceMode] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>('text');
+  const [editing, setEditing] = useState<{ messageId: string; text: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const captionsRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Auto-scroll to bottom when new messages arrive
@@ -36,6 +135,21 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, curr
     return () => clearTimeout(timeoutId);
   }, [messages, isLoading]);
 
+  // Keep the newest live caption in view
+  useEffect(() => {
+    captionsRef.current?.scrollTo({ top: captionsRef.current.scrollHeight, behavior: 'smooth' });
+  }, [liveCaptions]);
+
+  // Pre-fill the text input, e.g. with a question about a selected object
+  useEffect(() => {
+    if (!prefill) return;
+    setInputMode('text');
+    setInputText(prefill.text);
+    // Wait for the textarea to render when switching back from voice mode
+    const timeoutId = setTimeout(() => textareaRef.current?.focus(), 0);
+    return () => clearTimeout(timeoutId);
+  }, [prefill]);
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -44,27 +158,67 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, curr
     }
   }, [inputText]);
 
+  // Highlight the sentences that mention the hovered object
+  const renderContent = (content: string) => {
+    if (!highlightTerm) return content;
+
+    const term = highlightTerm.toLowerCase();
+    const sentences = content.match(/[^.!?\n]+[.!?]*\s*|\n+/g) ?? [content];
+    return sentences.map((sentence, index) =>
+      sentence.toLowerCase().includes(term) ? (
+        <mark
+          key={index}
+          className='rounded px-0.5'
+          style={{ backgroundColor: 'rgb(217 119 6 / 0.25)', color: 'inherit' }}>
+          {sentence}
+        </mark>
+      ) : (
+        sentence
+      ),
+    );
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputText.trim() && !isLoading) {
+    if (inputText.trim() && !isLoading && !isStreaming) {
       onSendMessage(inputText.trim());
       setInputText('');
     }
   };
 
+  // Ask for a structured analysis, using any typed text as the focus
+  const handleRequestAnalysis = () => {
+    if (onRequestAnalysis && !isLoading && !isStreaming) {
+      onRequestAnalysis(inputText.trim());
+      setInputText('');
+    }
+  };
+
+  // Editing, regenerating and switching branches wait for the current answer to finish
+  const busy = isLoading || isStreaming;
+
+  const handleSubmitEdit = () => {
+    if (!editing || !editing.text.trim() || busy) return;
+    onEditMessage?.(editing.messageId, editing.text.trim());
+    setEditing(null);
+  };
+
   const handleVoiceTranscript = (text: string) => {
-    if (text && !isLoading) {
+    if (text && !isLoading && !isStreaming) {
       onSendMessage(text);
-      setIsVoiceMode(false);
+      setInputMode('text');
     }
   };
 
+  const endConversation = useCallback(() => setInputMode('text'), []);
+
   const speakText = (text: string) => {
     if ('speechSynthesis' in window) {
       // Cancel any ongoing speech
       window.speechSynthesis.cancel();
 
-      const utterance = new SpeechSynthesisUtterance(text);
+      // Read the words, not the markdown syntax
+      const utterance = createUtterance(toPlainText(text), language, voiceURI);
       utterance.rate = 0.9;
       utterance.pitch = 1;
       utterance.volume = 0.8;
@@ -75,8 +229,100 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, curr
 
   return (
     <div className='flex flex-col h-full'>
+      {/* Live lens caption feed */}
+      {(isLive || liveCaptions.length > 0) && (
+        <div className='border-b px-6 py-3' style={{ borderColor: 'var(--border-light)' }}>
+          <div className='flex items-center justify-between mb-2'>
+            <p
+              className='text-xs font-semibold uppercase tracking-wide flex items-center gap-2'
+              style={{ color: 'var(--text-secondary)' }}>
+              <span
+                className={`w-2 h-2 rounded-full ${isLive ? 'animate-pulse' : ''}`}
+                style={{ backgroundColor: isLive ? 'var(--error)' : 'var(--text-muted)' }}
+              />
+              Live lens
+            </p>
+            {onClearLiveCaptions && liveCaptions.length > 0 && (
+              <button
+                onClick={onClearLiveCaptions}
+                className='text-xs hover:underline'
+                style={{ color: 'var(--text-muted)' }}>
+                Clear
+              </button>
+            )}
+          </div>
+
+          <div ref={captionsRef} className='max-h-32 overflow-y-auto space-y-1 scrollbar-thin' aria-live='polite'>
+            {liveCaptions.map((caption) => (
+              <p key={caption.id} className='text-sm' style={{ color: 'var(--text-primary)' }}>
+                <span className='text-xs tabular-nums mr-2' style={{ color: 'var(--text-muted)' }}>
+                  {new Date(caption.timestamp).toLocaleTimeString([], {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                    second: '2-digit',
+                  })}
+                </span>
+                {caption.text}
+              </p>
+            ))}
+            {isLive && liveCaptions.length === 0 && !liveError && (
+              <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
+                Watching... captions appear when something relevant changes.
+              </p>
+            )}
+            {liveError && (
+              <p className='text-sm' style={{ color: 'var(--error)' }}>
+                {liveError}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Messages Area */}
       <div className='flex-1 min-h-0 overflow-y-auto p-6 space-y-6 scroll-smooth scrollbar-thin'>
+        {/* Export */}
+        {onExport && messages.length > 0 && (
+          <div className='flex justify-end'>
+            <Menu>
+              <MenuButton
+                disabled={isStreaming}
+                className='flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-medium border focus:outline-none focus:ring-2 disabled:opacity-50'
+                style={{
+                  backgroundColor: 'var(--surface-elevated)',
+                  borderColor: 'var(--border)',
+                  color: 'var(--text-secondary)',
+                }}>
+                <ArrowDownTrayIcon className='w-4 h-4' />
+                Export
+              </MenuButton>
+              <MenuItems
+                anchor='bottom end'
+                className='z-20 w-64 mt-2 p-1 rounded-xl border shadow-lg focus:outline-none'
+                style={{
+                  backgroundColor: 'var(--surface)',
+                  borderColor: 'var(--border)',
+                  boxShadow: 'var(--shadow-lg)',
+                }}>
+                {EXPORT_OPTIONS.map((option) => (
+                  <MenuItem key={option.format}>
+                    <button
+                      onClick={() => onExport(option.format)}
+                      className='w-full text-left p-2 rounded-lg data-[focus]:bg-black/5'>
+                      <p className='text-sm font-medium' style={{ color: 'var(--text-primary)' }}>
+                        {option.label}
+                      </p>
+                      <p className='text-xs' style={{ color: 'var(--text-muted)' }}>
+                        {option.description}
+                      </p>
+                    </button>
+                  </MenuItem>
+                ))}
+              </MenuItems>
+            </Menu>
+          </div>
+        )}
+
         {messages.length === 0 && (
           <div className='flex flex-col items-center justify-center py-12 text-center'>
             <div
@@ -104,43 +350,274 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, curr
                 ? 'Ask me anything about what you see in the image'
                 : "Share a photo and I'll help you understand what's in it"}
             </p>
+
+            {/* Suggested starter questions for the current persona */}
+            {currentImage && starters.length > 0 && (
+              <div className='flex flex-wrap justify-center gap-2 mt-6 max-w-md'>
+                {starters.map((starter) => (
+                  <button
+                    key={starter}
+                    onClick={() => !isLoading && !isStreaming && onSendMessage(starter)}
+                    className='px-3 py-1.5 rounded-full text-sm border transition-all duration-200 hover:shadow-sm'
+                    style={{
+                      backgroundColor: 'var(--surface-elevated)',
+                      borderColor: 'var(--border)',
+                      color: 'var(--text-secondary)',
+                    }}>
+                    {starter}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
-        {messages.map((message) => (
-          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div
-              className={`
+        {messages.map((message) =>
+          message.role === 'system' ? (
+            // Image changes are shown inline as a note rather than a chat bubble
+            <div key={message.id} className='flex justify-center'>
+              <div
+                className='flex items-center gap-2 px-3 py-1.5 rounded-full text-xs'
+                style={{ backgroundColor: 'var(--surface-elevated)', color: 'var(--text-muted)' }}>
+                <PhotoIcon className='w-4 h-4 flex-shrink-0' />
+                {message.content}
+              </div>
+            </div>
+          ) : (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`
               max-w-[85%] rounded-2xl px-4 py-3 shadow-sm relative group
               ${message.role === 'user' ? 'ml-12' : 'mr-12'}
             `}
-              style={{
-                backgroundColor: message.role === 'user' ? 'var(--primary)' : 'var(--surface-elevated)',
-                color: message.role === 'user' ? 'white' : 'var(--text-primary)',
-                border: message.role === 'assistant' ? '1px solid var(--border-light)' : 'none',
-              }}>
-              {/* Message content */}
-              <p className='whitespace-pre-wrap leading-relaxed'>{message.content}</p>
+                style={{
+                  backgroundColor: message.role === 'user' ? 'var(--primary)' : 'var(--surface-elevated)',
+                  color: message.role === 'user' ? 'white' : 'var(--text-primary)',
+                  border: message.role === 'assistant' ? '1px solid var(--border-light)' : 'none',
+                }}>
+                {/* Images sent with this turn */}
+                {message.imageUrls && message.imageUrls.length > 0 && (
+                  <div className='flex gap-2 mb-2'>
+                    {message.imageUrls.map((imageUrl, index) => (
+                      <div key={index} className='relative w-12 h-12 rounded-lg overflow-hidden border border-white/20'>
+                        <Image
+                          src={getThumbnailUrl(imageUrl)}
+                          alt={`Image ${index + 1}`}
+                          width={48}
+                          height={48}
+                          className='w-full h-full object-cover'
+                          unoptimized
+                        />
+                        <span className='absolute bottom-0 right-0 px-1 text-[10px] bg-black/60 text-white rounded-tl'>
+                          {index + 1}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Message content */}
+                {message.analysis ? (
+                  <AnalysisCard analysis={message.analysis} highlightTerm={highlightTerm} />
+                ) : message.role === 'assistant' ? (
+                  <>
+                    <Markdown content={message.content} highlightTerm={highlightTerm} />
+                    {message.status === 'streaming' && (
+                      <span
+                        className='inline-block w-2 h-4 ml-0.5 align-text-bottom animate-pulse'
+                        style={{ backgroundColor: 'var(--primary)' }}
+                      />
+                    )}
+                    {/* Why the safety filters stopped this reply */}
+                    {message.finishReason === 'blocked' && (
+                      <div
+                        className='mt-3 p-3 rounded-lg border flex items-start gap-2 text-sm'
+                        style={{ borderColor: 'var(--warning)', color: 'var(--text-secondary)' }}
+                        role='note'>
+                        <ShieldExclamationIcon className='w-5 h-5 flex-shrink-0' style={{ color: 'var(--warning)' }} />
+                        <p>{describeSafetyBlock('answer', message.safetyRatings)}</p>
+                      </div>
+                    )}
+                  </>
+                ) : editing?.messageId === message.id ? (
+                  <div className='space-y-2'>
+                    <textarea
+                      value={editing.text}
+                      onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSubmitEdit();
+                        } else if (e.key === 'Escape') {
+                          setEditing(null);
+                        }
+                      }}
+                      rows={3}
+                      autoFocus
+                      className='w-full min-w-64 rounded-lg px-3 py-2 text-sm resize-y focus:outline-none'
+                      style={{ backgroundColor: 'var(--surface)', color: 'var(--text-primary)' }}
+                    />
+                    <div className='flex justify-end gap-2 text-sm'>
+                      <button onClick={() => setEditing(null)} className='px-3 py-1 rounded-lg hover:bg-white/10'>
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSubmitEdit}
+                        disabled={!editing.text.trim() || busy}
+                        className='px-3 py-1 rounded-lg font-medium bg-white disabled:opacity-50'
+                        style={{ color: 'var(--primary)' }}>
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className='whitespace-pre-wrap leading-relaxed'>{renderContent(message.content)}</p>
+                )}
+
+                {/* Server-generated speech */}
+                {message.role === 'assistant' && message.audioUrl && <AudioPlayer src={message.audioUrl} />}
+
+                {/* Message metadata */}
+                <div className='flex items-center justify-between mt-3 pt-2 border-t border-white/10 dark:border-slate-600/30'>
+                  <div className='text-xs opacity-70 flex items-center gap-2'>
+                    {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {message.role === 'assistant' && message.settings && (
+                      <span
+                        title={`Temperature ${message.settings.temperature}, max ${message.settings.maxOutputTokens} tokens`}>
+                        · {getModelOption(message.settings.model)?.label ?? message.settings.model}
+                      </span>
+                    )}
+                    {message.role === 'assistant' && message.personaId && (
+                      <span>· {getPersona(message.personaId)?.label ?? message.personaId}</span>
+                    )}
+                    {message.finishReason === 'length' && (
+                      <span title='The reply reached the maximum output length. Raise it in the settings for longer answers.'>
+                        · Cut off
+                      </span>
+                    )}
+                    {message.finishReason !== 'blocked' && getFlaggedRatings(message.safetyRatings).length > 0 && (
+                      <span
+                        className='flex items-center gap-0.5'
+                        title={`Safety ratings: ${message.safetyRatings
+                          ?.map(
+                            (rating) =>
+                              `${SAFETY_CATEGORY_LABELS[rating.category]} ${rating.probability.toLowerCase()}`,
+                          )
+                          .join(', ')}`}>
+                        · <ShieldExclamationIcon className='w-3.5 h-3.5' />
+                        Sensitive
+                      </span>
+                    )}
+                    {message.status === 'interrupted' && message.finishReason !== 'blocked' && (
+                      <span
+                        className='px-1.5 py-0.5 rounded'
+                        style={{ backgroundColor: 'var(--warning)', color: 'white' }}
+                        title='The response was stopped before it finished'>
+                        Interrupted
+                      </span>
+                    )}
+                  </div>
+
+                  <div className='flex items-center gap-1'>
+                    {/* Flip between edits of a question or answers to it */}
+                    {alternatives[message.id] && onSwitchBranch && (
+                      <div className='flex items-center text-xs opacity-70'>
+                        <button
+                          onClick={() => onSwitchBranch(message.id, -1)}
+                          disabled={busy || alternatives[message.id].index === 0}
+                          className='p-1 rounded-lg hover:bg-white/10 dark:hover:bg-slate-600/30 disabled:opacity-40'
+                          title='Previous version'>
+                          <ChevronLeftIcon className='w-3.5 h-3.5' />
+                        </button>
+                        <span className='tabular-nums'>
+                          {alternatives[message.id].index + 1}/{alternatives[message.id].count}
+                        </span>
+                        <button
+                          onClick={() => onSwitchBranch(message.id, 1)}
+                          disabled={busy || alternatives[message.id].index === alternatives[message.id].count - 1}
+                          className='p-1 rounded-lg hover:bg-white/10 dark:hover:bg-slate-600/30 disabled:opacity-40'
+                          title='Next version'>
+                          <ChevronRightIcon className='w-3.5 h-3.5' />
+                        </button>
+                      </div>
+                    )}
+
+                    {message.role === 'user' && onEditMessage && editing?.messageId !== message.id && (
+                      <button
+                        onClick={() => setEditing({ messageId: message.id, text: message.content })}
+                        disabled={busy}
+                        className='opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1.5 rounded-lg hover:bg-white/10 disabled:hidden'
+                        title='Edit and resend'>
+                        <PencilIcon className='w-4 h-4' />
+                      </button>
+                    )}
+
+                    {/* Structured analyses are requested separately, so only chat replies can be regenerated */}
+                    {message.role === 'assistant' &&
+                      onRegenerate &&
+                      message.parentId &&
+                      !message.analysis &&
+                      message.status !== 'streaming' && (
+                        <button
+                          onClick={() => onRegenerate(message.id)}
+                          disabled={busy}
+                          className='opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1.5 rounded-lg hover:bg-white/10 dark:hover:bg-slate-600/30 disabled:hidden'
+                          title='Regenerate answer'>
+                          <ArrowPathIcon className='w-4 h-4' />
+                        </button>
+                      )}
 
-              {/* Message metadata */}
-              <div className='flex items-center justify-between mt-3 pt-2 border-t border-white/10 dark:border-slate-600/30'>
-                <div className='text-xs opacity-70'>
-                  {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {/* Browser speech for replies without server-generated audio */}
+                    {message.role === 'assistant' && message.status !== 'streaming' && !message.audioUrl && (
+                      <button
+                        onClick={() => speakText(message.content)}
+                        className='opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1.5 rounded-lg hover:bg-white/10 dark:hover:bg-slate-600/30'
+                        title='Play audio'>
+                        <SpeakerWaveIcon className='w-4 h-4' />
+                      </button>
+                    )}
+                  </div>
                 </div>
+              </div>
+            </div>
+          ),
+        )}
 
-                {/* Voice playback button for AI responses */}
-                {message.role === 'assistant' && (
-                  <button
-                    onClick={() => speakText(message.content)}
-                    className='opacity-0 group-hover:opacity-100 transition-opacity duration-200 p-1.5 rounded-lg hover:bg-white/10 dark:hover:bg-slate-600/30'
-                    title='Play audio'>
-                    <SpeakerWaveIcon className='w-4 h-4' />
-                  </button>
-                )}
+        {/* Failed request */}
+        {error && !busy && (
+          <div className='flex justify-start'>
+            <div
+              className='mr-12 max-w-[85%] rounded-2xl px-4 py-3 border text-sm'
+              style={{ backgroundColor: 'var(--surface-elevated)', borderColor: 'var(--error)' }}
+              role='alert'>
+              <div className='flex items-start gap-2' style={{ color: 'var(--error)' }}>
+                <ExclamationTriangleIcon className='w-5 h-5 flex-shrink-0' />
+                <p>{error.message}</p>
               </div>
+              {error.canRetry && onRetry && (
+                <button
+                  onClick={onRetry}
+                  className='mt-3 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-white'
+                  style={{ backgroundColor: 'var(--primary)' }}>
+                  <ArrowPathIcon className='w-4 h-4' />
+                  Try again
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {notice && (
+          <div className='flex justify-center'>
+            <div
+              className='flex items-center gap-2 px-3 py-1.5 rounded-full text-xs'
+              style={{ backgroundColor: 'var(--surface-elevated)', color: 'var(--text-muted)' }}
+              role='status'>
+              <PhotoIcon className='w-4 h-4 flex-shrink-0' />
+              {notice}
             </div>
           </div>
-        ))}
+        )}
 
         {/* Loading indicator */}
         {isLoading && (
@@ -184,36 +661,42 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, curr
         {/* Mode Toggle */}
         <div className='flex justify-center mb-6'>
           <div className='p-1 rounded-xl flex gap-1' style={{ backgroundColor: 'var(--surface-elevated)' }}>
-            <button
-              onClick={() => setIsVoiceMode(false)}
-              className={`px-4 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 flex items-center gap-2 ${
-                !isVoiceMode ? 'shadow-sm' : ''
-              }`}
-              style={{
-                backgroundColor: !isVoiceMode ? 'var(--surface)' : 'transparent',
-                color: !isVoiceMode ? 'var(--primary)' : 'var(--text-secondary)',
-              }}>
-              <PencilIcon className='w-4 h-4' />
-              Type
-            </button>
-            <button
-              onClick={() => setIsVoiceMode(true)}
-              className={`px-4 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 flex items-center gap-2 ${
-                isVoiceMode ? 'shadow-sm' : ''
-              }`}
-              style={{
-                backgroundColor: isVoiceMode ? 'var(--surface)' : 'transparent',
-                color: isVoiceMode ? 'var(--primary)' : 'var(--text-secondary)',
-              }}>
-              <MicrophoneIcon className='w-4 h-4' />
-              Voice
-            </button>
+            {INPUT_MODES.map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setInputMode(mode)}
+                className={`px-4 py-2.5 rounded-lg text-sm font-medium transition-all duration-200 flex items-center gap-2 ${
+                  inputMode === mode ? 'shadow-sm' : ''
+                }`}
+                style={{
+                  backgroundColor: inputMode === mode ? 'var(--surface)' : 'transparent',
+                  color: inputMode === mode ? 'var(--primary)' : 'var(--text-secondary)',
+                }}>
+                <Icon className='w-4 h-4' />
+                {label}
+              </button>
+            ))}
           </div>
         </div>
 
-        {/* Voice Input Mode */}
-        {isVoiceMode ? (
-          <VoiceInput onTranscript={handleVoiceTranscript} onVoiceStart={() => {}} onVoiceEnd={() => {}} />
+        {/* Hands-free Conversation Mode */}
+        {inputMode === 'conversation' ? (
+          <ConversationMode
+            messages={messages}
+            isBusy={isLoading || isStreaming || isSynthesizing}
+            language={language}
+            voiceURI={voiceURI}
+            onSendMessage={onSendMessage}
+            onEnd={endConversation}
+          />
+        ) : inputMode === 'voice' ? (
+          /* Voice Input Mode */
+          <VoiceInput
+            language={language}
+            onTranscript={handleVoiceTranscript}
+            onVoiceStart={() => {}}
+            onVoiceEnd={() => {}}
+          />
         ) : (
           /* Text Input Mode */
           <form onSubmit={handleSubmit} className='flex gap-4'>
@@ -227,7 +710,7 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, curr
                     ? 'Describe what you see or ask a question...'
                     : 'Upload an image first to start chatting...'
                 }
-                disabled={isLoading || !currentImage}
+                disabled={isLoading || isStreaming || !currentImage}
                 className='w-full p-4 rounded-xl resize-none min-h-[56px] max-h-32 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2'
                 style={{
                   backgroundColor: 'var(--surface-elevated)',
@@ -243,16 +726,45 @@ export default function ChatInterface({ messages, onSendMessage, isLoading, curr
                 }}
               />
             </div>
-            <button
-              type='submit'
-              disabled={!inputText.trim() || isLoading || !currentImage}
-              className='px-5 py-4 rounded-xl transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center min-w-[56px]'
-              style={{
-                backgroundColor: 'var(--primary)',
-                color: 'white',
-              }}>
-              <PaperAirplaneIcon className='w-5 h-5' />
-            </button>
+            {onRequestAnalysis && !isStreaming && (
+              <button
+                type='button'
+                onClick={handleRequestAnalysis}
+                disabled={isLoading || !currentImage}
+                className='px-4 py-4 rounded-xl transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center min-w-[56px]'
+                style={{
+                  backgroundColor: 'var(--surface-elevated)',
+                  color: 'var(--primary)',
+                  border: '1px solid var(--border)',
+                }}
+                title='Structured analysis (typed text sets the focus)'>
+                <CodeBracketSquareIcon className='w-5 h-5' />
+              </button>
+            )}
+            {isStreaming ? (
+              <button
+                type='button'
+                onClick={onStopStreaming}
+                className='px-5 py-4 rounded-xl transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 flex items-center justify-center min-w-[56px]'
+                style={{
+                  backgroundColor: 'var(--error)',
+                  color: 'white',
+                }}
+                title='Stop generating'>
+                <StopIcon className='w-5 h-5' />
+              </button>
+            ) : (
+              <button
+                type='submit'
+                disabled={!inputText.trim() || isLoading || !currentImage}
+                className='px-5 py-4 rounded-xl transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center min-w-[56px]'
+                style={{
+                  backgroundColor: 'var(--primary)',
+                  color: 'white',
+                }}>
+                <PaperAirplaneIcon className='w-5 h-5' />
+              </button>
+            )}
           </form>
         )}
       </div>
@@ -0,0 +1,157 @@
+'use client';
+
+import { getThumbnailUrl } from '@/lib/image-urls';
+import { ChatSessionSummary } from '@/types/conversation';
+import { ArrowPathIcon, CheckIcon, PencilIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import Image from 'next/image';
+import { useState } from 'react';
+
+interface ConversationHistoryProps {
+  sessions: ChatSessionSummary[];
+  activeSessionId: string | null;
+  onSelect: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+  onStartFromImages: (sessionId: string) => void;
+}
+
+export default function ConversationHistory({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onRename,
+  onDelete,
+  onStartFromImages,
+}: ConversationHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const startEditing = (session: ChatSessionSummary) => {
+    setEditingId(session.id);
+    setEditTitle(session.title || session.firstQuestion || '');
+  };
+
+  const submitRename = (sessionId: string) => {
+    onRename(sessionId, editTitle);
+    setEditingId(null);
+  };
+
+  const formatTimestamp = (date: Date) => {
+    const timestamp = new Date(date);
+    const isToday = timestamp.toDateString() === new Date().toDateString();
+    return isToday
+      ? timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : timestamp.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  };
+
+  if (sessions.length === 0) {
+    return (
+      <div className='p-6 text-center'>
+        <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
+          No conversations yet. Ask a question about an image to start one.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className='p-3 space-y-2'>
+      {sessions.map((session) => {
+        const isActive = session.id === activeSessionId;
+        const isEditing = session.id === editingId;
+
+        return (
+          <li
+            key={session.id}
+            className='group rounded-xl border p-2 transition-all duration-200'
+            style={{
+              backgroundColor: isActive ? 'var(--primary-light)' : 'var(--surface-elevated)',
+              borderColor: isActive ? 'var(--primary)' : 'var(--border-light)',
+            }}>
+            <div className='flex gap-3'>
+              <button
+                onClick={() => onSelect(session.id)}
+                className='w-12 h-12 flex-shrink-0 rounded-lg overflow-hidden border'
+                style={{ borderColor: 'var(--border)' }}
+                title='Open conversation'>
+                {session.thumbnail && (
+                  <Image
+                    src={getThumbnailUrl(session.thumbnail)}
+                    alt='First image'
+                    width={48}
+                    height={48}
+                    className='w-full h-full object-cover'
+                    unoptimized
+                  />
+                )}
+              </button>
+
+              <div className='flex-1 min-w-0'>
+                {isEditing ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitRename(session.id);
+                    }}
+                    className='flex items-center gap-1'>
+                    <input
+                      autoFocus
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      className='flex-1 min-w-0 text-sm px-2 py-1 rounded-md focus:outline-none focus:ring-2'
+                      style={{
+                        backgroundColor: 'var(--surface)',
+                        color: 'var(--text-primary)',
+                        border: '1px solid var(--border)',
+                      }}
+                    />
+                    <button type='submit' className='p-1 rounded-md' title='Save name'>
+                      <CheckIcon className='w-4 h-4' style={{ color: 'var(--success)' }} />
+                    </button>
+                    <button type='button' onClick={() => setEditingId(null)} className='p-1 rounded-md' title='Cancel'>
+                      <XMarkIcon className='w-4 h-4' style={{ color: 'var(--text-muted)' }} />
+                    </button>
+                  </form>
+                ) : (
+                  <button onClick={() => onSelect(session.id)} className='w-full text-left'>
+                    <p className='text-sm font-medium truncate' style={{ color: 'var(--text-primary)' }}>
+                      {session.title || session.firstQuestion || 'Untitled conversation'}
+                    </p>
+                    <p className='text-xs mt-0.5' style={{ color: 'var(--text-muted)' }}>
+                      {formatTimestamp(session.updatedAt)} · {session.messageCount} messages
+                    </p>
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Conversation actions */}
+            {!isEditing && (
+              <div className='flex justify-end gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200'>
+                <button
+                  onClick={() => onStartFromImages(session.id)}
+                  className='p-1.5 rounded-lg hover:bg-black/5'
+                  title='Start new from these images'>
+                  <ArrowPathIcon className='w-4 h-4' style={{ color: 'var(--text-secondary)' }} />
+                </button>
+                <button
+                  onClick={() => startEditing(session)}
+                  className='p-1.5 rounded-lg hover:bg-black/5'
+                  title='Rename conversation'>
+                  <PencilIcon className='w-4 h-4' style={{ color: 'var(--text-secondary)' }} />
+                </button>
+                <button
+                  onClick={() => onDelete(session.id)}
+                  className='p-1.5 rounded-lg hover:bg-black/5'
+                  title='Delete conversation'>
+                  <TrashIcon className='w-4 h-4' style={{ color: 'var(--error)' }} />
+                </button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
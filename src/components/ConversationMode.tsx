@@ -0,0 +1,292 @@
+'use client';
+
+import { transcribeAudio } from '@/app/actions/chat';
+import { createConversationListener } from '@/lib/conversation-listener';
+import { createUtterance, getRecognitionLanguage } from '@/lib/languages';
+import { toPlainText } from '@/lib/markdown';
+import { Message } from '@/types/conversation';
+import {
+  ExclamationTriangleIcon,
+  ForwardIcon,
+  MicrophoneIcon,
+  SparklesIcon,
+  SpeakerWaveIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useEffect, useRef, useState } from 'react';
+
+interface ConversationModeProps {
+  messages: Message[];
+  // True while a reply is being generated or its audio synthesized
+  isBusy: boolean;
+  language: string;
+  voiceURI?: string;
+  onSendMessage: (message: string) => void;
+  onEnd: () => void;
+}
+
+type ConversationPhase = 'listening' | 'thinking' | 'speaking';
+
+const PHASES: { phase: ConversationPhase; label: string; icon: typeof MicrophoneIcon }[] = [
+  { phase: 'listening', label: 'Listening', icon: MicrophoneIcon },
+  { phase: 'thinking', label: 'Thinking', icon: SparklesIcon },
+  { phase: 'speaking', label: 'Speaking', icon: SpeakerWaveIcon },
+];
+
+// Saying one of these ends conversation mode instead of being sent as a question
+const END_PHRASES = ['end conversation', 'stop conversation', 'exit conversation', 'stop listening'];
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isEndPhrase(text: string): boolean {
+  const normalized = normalize(text);
+  return END_PHRASES.some((phrase) => normalized === phrase || normalized.endsWith(` ${phrase}`));
+}
+
+// The microphone can pick up the answer being read out, so only words that aren't part of it interrupt
+function isBargeIn(interimText: string, spokenText: string): boolean {
+  // Level-based detection has no words to compare
+  if (!interimText) return true;
+  const words = normalize(interimText);
+  return words.split(' ').length >= 2 && !normalize(spokenText).includes(words);
+}
+
+// Read a reply aloud, preferring server-generated audio. Returns a function that stops playback
+function playReply(reply: Message, language: string, voiceURI: string | undefined, onDone: () => void): () => void {
+  if (reply.audioUrl) {
+    const audio = new Audio(reply.audioUrl);
+    audio.onended = onDone;
+    audio.onerror = onDone;
+    audio.play().catch((error) => {
+      console.error('Error playing audio:', error);
+      onDone();
+    });
+    return () => {
+      audio.onended = null;
+      audio.onerror = null;
+      audio.pause();
+    };
+  }
+
+  if (!('speechSynthesis' in window)) {
+    onDone();
+    return () => {};
+  }
+
+  window.speechSynthesis.cancel();
+  const utterance = createUtterance(toPlainText(reply.content), language, voiceURI);
+  utterance.rate = 0.9;
+  utterance.onend = onDone;
+  utterance.onerror = onDone;
+  window.speechSynthesis.speak(utterance);
+  return () => {
+    utterance.onend = null;
+    utterance.onerror = null;
+    window.speechSynthesis.cancel();
+  };
+}
+
+async function transcribe(audio: Blob) {
+  const formData = new FormData();
+  formData.append('audio', audio);
+  const response = await transcribeAudio(formData);
+  if (!response.success) throw new Error(response.error);
+  return { text: response.text, language: response.language };
+}
+
+// Hands-free loop: listen for a question, send it, read the answer aloud, listen again.
+// Talking over the answer stops playback and starts the next question.
+export default function ConversationMode({
+  messages,
+  isBusy,
+  language,
+  voiceURI,
+  onSendMessage,
+  onEnd,
+}: ConversationModeProps) {
+  const [phase, setPhase] = useState<ConversationPhase>('listening');
+  const [transcript, setTranscript] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [isSupported, setIsSupported] = useState(true);
+
+  // Listener callbacks outlive renders, so they read the latest values through refs
+  const phaseRef = useRef<ConversationPhase>('listening');
+  const propsRef = useRef({ messages, onSendMessage, onEnd });
+  propsRef.current = { messages, onSendMessage, onEnd };
+
+  const lastReplyIdRef = useRef<string | undefined>(undefined);
+  const spokenTextRef = useRef('');
+  const stopPlaybackRef = useRef<(() => void) | null>(null);
+
+  const changePhase = (next: ConversationPhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  const stopPlayback = () => {
+    stopPlaybackRef.current?.();
+    stopPlaybackRef.current = null;
+  };
+
+  const skipReply = () => {
+    stopPlayback();
+    setTranscript('');
+    changePhase('listening');
+  };
+
+  useEffect(() => {
+    const listener = createConversationListener(
+      {
+        onSpeech: (interimText) => {
+          if (phaseRef.current === 'speaking' && isBargeIn(interimText, spokenTextRef.current)) {
+            stopPlayback();
+            changePhase('listening');
+          }
+          if (phaseRef.current === 'listening') {
+            setTranscript(interimText);
+            setErrorMessage('');
+          }
+        },
+        onUtterance: (text) => {
+          if (isEndPhrase(text)) {
+            propsRef.current.onEnd();
+            return;
+          }
+          // Speech while waiting for an answer, or echo of the answer itself, is ignored
+          if (phaseRef.current !== 'listening') return;
+
+          const { messages, onSendMessage } = propsRef.current;
+          lastReplyIdRef.current = messages[messages.length - 1]?.id;
+          setTranscript(text);
+          changePhase('thinking');
+          onSendMessage(text);
+        },
+        onError: setErrorMessage,
+      },
+      transcribe,
+      getRecognitionLanguage(language),
+    );
+
+    if (!listener) {
+      setIsSupported(false);
+      return;
+    }
+
+    listener.start().catch((error) => {
+      console.error('Failed to start conversation mode:', error);
+      setErrorMessage('Failed to start listening. Please try again.');
+    });
+
+    return () => {
+      listener.stop();
+      stopPlayback();
+    };
+    // Restart the listener only when the recognition language changes
+  }, [language]);
+
+  // Once the answer is complete, read it out and go back to listening when it ends
+  useEffect(() => {
+    if (phase !== 'thinking' || isBusy) return;
+
+    const reply = messages[messages.length - 1];
+    if (!reply || reply.role !== 'assistant' || reply.id === lastReplyIdRef.current || !reply.content) {
+      setErrorMessage('No answer received. Please ask again.');
+      changePhase('listening');
+      return;
+    }
+
+    spokenTextRef.current = toPlainText(reply.content);
+    setTranscript('');
+    changePhase('speaking');
+    stopPlaybackRef.current = playReply(reply, language, voiceURI, () => {
+      stopPlaybackRef.current = null;
+      changePhase('listening');
+    });
+  }, [phase, isBusy, messages, language, voiceURI]);
+
+  // Escape ends the mode from the keyboard
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onEnd();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onEnd]);
+
+  return (
+    <div className='flex flex-col items-center space-y-6 py-4'>
+      {/* State indicator */}
+      <div className='flex items-center gap-2' role='status' aria-live='polite'>
+        {PHASES.map(({ phase: step, label, icon: Icon }) => {
+          const isActive = isSupported && step === phase;
+          return (
+            <div
+              key={step}
+              className={`px-3 py-2 rounded-lg text-sm font-medium flex items-center gap-2 transition-all duration-200 ${
+                isActive ? 'shadow-sm' : 'opacity-60'
+              }`}
+              style={{
+                backgroundColor: isActive ? 'var(--primary)' : 'var(--surface-elevated)',
+                color: isActive ? 'white' : 'var(--text-secondary)',
+              }}
+              aria-current={isActive ? 'step' : undefined}>
+              <Icon className={`w-4 h-4 ${isActive ? 'animate-pulse' : ''}`} />
+              {label}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Transcript of the current question */}
+      {transcript && (
+        <p className='text-sm text-center max-w-md' style={{ color: 'var(--text-primary)' }}>
+          &quot;{transcript}&quot;
+        </p>
+      )}
+
+      {/* Error Message */}
+      {(errorMessage || !isSupported) && (
+        <div
+          className='w-full max-w-md p-3 rounded-xl border flex items-start gap-3 text-sm'
+          style={{
+            backgroundColor: 'var(--surface-elevated)',
+            borderColor: 'var(--error)',
+            color: 'var(--error)',
+          }}>
+          <ExclamationTriangleIcon className='w-5 h-5 flex-shrink-0' />
+          <p>{isSupported ? errorMessage : 'Conversation mode needs microphone support, which this browser lacks.'}</p>
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className='flex items-center gap-3'>
+        {phase === 'speaking' && (
+          <button
+            onClick={skipReply}
+            className='px-4 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2 border'
+            style={{ borderColor: 'var(--border)', color: 'var(--text-secondary)' }}>
+            <ForwardIcon className='w-4 h-4' />
+            Skip answer
+          </button>
+        )}
+        <button
+          onClick={onEnd}
+          className='px-4 py-2.5 rounded-lg text-sm font-medium flex items-center gap-2'
+          style={{ backgroundColor: 'var(--error)', color: 'white' }}>
+          <XMarkIcon className='w-4 h-4' />
+          End conversation
+        </button>
+      </div>
+
+      <p className='text-xs' style={{ color: 'var(--text-muted)' }}>
+        Say &quot;end conversation&quot; or press Esc to stop. Start talking to interrupt an answer.
+      </p>
+    </div>
+  );
+}
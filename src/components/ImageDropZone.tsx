@@ -0,0 +1,71 @@
+'use client';
+
+import { getImageFiles, hasDraggedFiles } from '@/lib/image-files';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { useRef, useState } from 'react';
+
+interface ImageDropZoneProps {
+  // Image files only; empty when everything dropped was some other kind of file
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Shows a drop target over its children while image files are dragged onto it
+export default function ImageDropZone({ onFiles, disabled = false, className = '', children }: ImageDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave also fire for every child element, so count them to know when the pointer really left
+  const depthRef = useRef(0);
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (disabled || !hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+    depthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (disabled || !hasDraggedFiles(event.dataTransfer)) return;
+    // Required for the drop event to fire
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = () => {
+    if (depthRef.current === 0) return;
+    depthRef.current--;
+    if (depthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    depthRef.current = 0;
+    setIsDragging(false);
+    if (disabled || !hasDraggedFiles(event.dataTransfer)) return;
+    event.preventDefault();
+
+    // Non-image files come through as an empty list so the caller can explain why nothing happened
+    onFiles(getImageFiles(event.dataTransfer.files));
+  };
+
+  return (
+    <div
+      className={`relative ${className}`}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}>
+      {children}
+      {isDragging && (
+        <div
+          className='absolute inset-0 z-20 rounded-2xl border-2 border-dashed flex flex-col items-center justify-center gap-2 pointer-events-none'
+          style={{ borderColor: 'var(--primary)', backgroundColor: 'var(--primary-light)' }}>
+          <ArrowDownTrayIcon className='w-8 h-8' style={{ color: 'var(--primary)' }} />
+          <p className='text-sm font-medium' style={{ color: 'var(--primary)' }}>
+            Drop images to add them
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+'use client';
+
+import { BoundingBox } from '@/types/conversation';
+import {
+  ArrowPathIcon,
+  ArrowsRightLeftIcon,
+  ArrowsUpDownIcon,
+  ArrowUpRightIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  BackspaceIcon,
+  CheckIcon,
+  PaintBrushIcon,
+  ScissorsIcon,
+  StopIcon,
+} from '@heroicons/react/24/outline';
+import { useEffect, useRef, useState } from 'react';
+
+interface ImageEditorProps {
+  image: Blob;
+  // Receives the edited image (or the original when nothing changed) and the areas the user marked
+  onDone: (image: Blob, highlights: BoundingBox[]) => void;
+  onCancel: () => void;
+}
+
+type Tool = 'crop' | 'pen' | 'arrow' | 'rect';
+
+// Coordinates are fractions of the working image, so shapes survive rotate, flip and crop
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Shape {
+  tool: Exclude<Tool, 'crop'>;
+  color: string;
+  points: Point[];
+}
+
+const TOOLS: { tool: Tool; label: string; icon: typeof PaintBrushIcon }[] = [
+  { tool: 'pen', label: 'Draw', icon: PaintBrushIcon },
+  { tool: 'arrow', label: 'Arrow', icon: ArrowUpRightIcon },
+  { tool: 'rect', label: 'Box', icon: StopIcon },
+  { tool: 'crop', label: 'Crop', icon: ScissorsIcon },
+];
+
+const COLORS = ['#ef4444', '#facc15', '#3b82f6'];
+
+// Matches the server's stored size, so editing never works on more pixels than will be kept
+const MAX_DIMENSION = 2048;
+
+// Area around an arrow's tip that counts as the highlighted region
+const ARROW_TIP_SIZE = 0.15;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function toCanvas(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+function drawShape(context: CanvasRenderingContext2D, shape: Shape, width: number, height: number) {
+  const points = shape.points.map((point) => ({ x: point.x * width, y: point.y * height }));
+  if (points.length < 2) return;
+
+  context.strokeStyle = shape.color;
+  context.lineWidth = Math.max(3, Math.max(width, height) / 250);
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  context.beginPath();
+
+  if (shape.tool === 'rect') {
+    const [start, end] = [points[0], points[points.length - 1]];
+    context.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+  } else if (shape.tool === 'arrow') {
+    const [start, end] = [points[0], points[points.length - 1]];
+    const angle = Math.atan2(end.y - start.y, end.x - start.x);
+    const head = context.lineWidth * 5;
+    context.moveTo(start.x, start.y);
+    context.lineTo(end.x, end.y);
+    context.moveTo(end.x - head * Math.cos(angle - Math.PI / 6), end.y - head * Math.sin(angle - Math.PI / 6));
+    context.lineTo(end.x, end.y);
+    context.lineTo(end.x - head * Math.cos(angle + Math.PI / 6), end.y - head * Math.sin(angle + Math.PI / 6));
+  } else {
+    context.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach((point) => context.lineTo(point.x, point.y));
+  }
+  context.stroke();
+}
+
+// The region each annotation points at: a box's own area, the area around an arrow's tip,
+// or the extent of a freehand mark
+function getHighlight(shape: Shape): BoundingBox | null {
+  let points = shape.points;
+  if (shape.tool === 'arrow') {
+    const tip = points[points.length - 1];
+    points = [
+      { x: tip.x - ARROW_TIP_SIZE / 2, y: tip.y - ARROW_TIP_SIZE / 2 },
+      { x: tip.x + ARROW_TIP_SIZE / 2, y: tip.y + ARROW_TIP_SIZE / 2 },
+    ];
+  }
+
+  const xs = points.map((point) => clamp(point.x));
+  const ys = points.map((point) => clamp(point.y));
+  const box = {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+  return box.width > 0.01 && box.height > 0.01 ? box : null;
+}
+
+function normalizeRect(start: Point, end: Point): BoundingBox {
+  return {
+    x: clamp(Math.min(start.x, end.x)),
+    y: clamp(Math.min(start.y, end.y)),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+// Crop, rotate, flip and annotate an image before it is uploaded
+export default function ImageEditor({ image, onDone, onCancel }: ImageEditorProps) {
+  const [base, setBase] = useState<HTMLCanvasElement | null>(null);
+  const [shapes, setShapes] = useState<Shape[]>([]);
+  const [draft, setDraft] = useState<Shape | null>(null);
+  const [cropRect, setCropRect] = useState<BoundingBox | null>(null);
+  const [tool, setTool] = useState<Tool>('pen');
+  const [color, setColor] = useState(COLORS[0]);
+  const [isEdited, setIsEdited] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const originalRef = useRef<HTMLCanvasElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragStartRef = useRef<Point | null>(null);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  // Decode once, applying EXIF orientation, and scale down to the stored size
+  useEffect(() => {
+    let cancelled = false;
+    createImageBitmap(image)
+      .then((bitmap) => {
+        if (cancelled) return;
+        const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+        const canvas = toCanvas(bitmap, Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+        bitmap.close();
+        originalRef.current = canvas;
+        setBase(canvas);
+      })
+      .catch((error) => {
+        // e.g. HEIC outside Safari; the server can still convert it, so send it unedited
+        console.error('Image cannot be edited in this browser:', error);
+        if (!cancelled) onDoneRef.current(image, []);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  // Redraw the working image with its annotations and any in-progress shape or crop box
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !base) return;
+
+    canvas.width = base.width;
+    canvas.height = base.height;
+    context.drawImage(base, 0, 0);
+    [...shapes, ...(draft ? [draft] : [])].forEach((shape) => drawShape(context, shape, base.width, base.height));
+
+    if (cropRect) {
+      const x = cropRect.x * base.width;
+      const y = cropRect.y * base.height;
+      const width = cropRect.width * base.width;
+      const height = cropRect.height * base.height;
+      context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      context.fillRect(0, 0, base.width, y);
+      context.fillRect(0, y + height, base.width, base.height - y - height);
+      context.fillRect(0, y, x, height);
+      context.fillRect(x + width, y, base.width - x - width, height);
+      context.setLineDash([10, 6]);
+      context.strokeStyle = 'white';
+      context.lineWidth = 2;
+      context.strokeRect(x, y, width, height);
+      context.setLineDash([]);
+    }
+  }, [base, shapes, draft, cropRect]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: (event.clientX - rect.left) / rect.width, y: (event.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = getPoint(event);
+    dragStartRef.current = point;
+    if (tool === 'crop') {
+      setCropRect(null);
+    } else {
+      setDraft({ tool, color, points: [point] });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = getPoint(event);
+    if (tool === 'crop') {
+      const rect = normalizeRect(start, point);
+      // Ignore clicks and slivers; a crop has to leave something to look at
+      setCropRect(rect.width > 0.02 && rect.height > 0.02 ? rect : null);
+    } else {
+      setDraft(
+        (prev) => prev && { ...prev, points: prev.tool === 'pen' ? [...prev.points, point] : [prev.points[0], point] },
+      );
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    if (draft && draft.points.length > 1) {
+      setShapes((prev) => [...prev, draft]);
+      setIsEdited(true);
+    }
+    setDraft(null);
+  };
+
+  // Geometric edits replace the working image and move the annotations with it
+  const transform = (
+    width: number,
+    height: number,
+    draw: (context: CanvasRenderingContext2D, source: HTMLCanvasElement) => void,
+    mapPoint: (point: Point) => Point,
+  ) => {
+    if (!base) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    draw(context, base);
+    setBase(canvas);
+    setShapes((prev) => prev.map((shape) => ({ ...shape, points: shape.points.map(mapPoint) })));
+    setCropRect(null);
+    setIsEdited(true);
+  };
+
+  const rotate = (clockwise: boolean) => {
+    if (!base) return;
+    transform(
+      base.height,
+      base.width,
+      (context, source) => {
+        context.translate(clockwise ? source.height : 0, clockwise ? 0 : source.width);
+        context.rotate(((clockwise ? 1 : -1) * Math.PI) / 2);
+        context.drawImage(source, 0, 0);
+      },
+      clockwise ? ({ x, y }) => ({ x: 1 - y, y: x }) : ({ x, y }) => ({ x: y, y: 1 - x }),
+    );
+  };
+
+  const flip = (horizontal: boolean) => {
+    if (!base) return;
+    transform(
+      base.width,
+      base.height,
+      (context, source) => {
+        context.translate(horizontal ? source.width : 0, horizontal ? 0 : source.height);
+        context.scale(horizontal ? -1 : 1, horizontal ? 1 : -1);
+        context.drawImage(source, 0, 0);
+      },
+      horizontal ? ({ x, y }) => ({ x: 1 - x, y }) : ({ x, y }) => ({ x, y: 1 - y }),
+    );
+  };
+
+  const applyCrop = () => {
+    if (!base || !cropRect) return;
+    const { x, y, width, height } = cropRect;
+    const sourceX = Math.round(x * base.width);
+    const sourceY = Math.round(y * base.height);
+    const sourceWidth = Math.max(1, Math.round(width * base.width));
+    const sourceHeight = Math.max(1, Math.round(height * base.height));
+    transform(
+      sourceWidth,
+      sourceHeight,
+      (context, source) =>
+        context.drawImage(source, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, sourceWidth, sourceHeight),
+      (point) => ({ x: (point.x - x) / width, y: (point.y - y) / height }),
+    );
+    setTool('pen');
+  };
+
+  const reset = () => {
+    setBase(originalRef.current);
+    setShapes([]);
+    setCropRect(null);
+    setIsEdited(false);
+  };
+
+  const save = () => {
+    if (!base) return;
+    // Nothing changed: send the original file so the server sees its real format
+    if (!isEdited) {
+      onDone(image, []);
+      return;
+    }
+
+    setIsSaving(true);
+    const output = toCanvas(base, base.width, base.height);
+    const context = output.getContext('2d');
+    shapes.forEach((shape) => context && drawShape(context, shape, output.width, output.height));
+
+    const highlights = shapes.map(getHighlight).filter((box): box is BoundingBox => box !== null);
+    const type = image.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    output.toBlob(
+      (blob) => {
+        setIsSaving(false);
+        onDone(blob ?? image, highlights);
+      },
+      type,
+      0.92,
+    );
+  };
+
+  const toolbarButton = (active: boolean) => ({
+    className: 'p-2 rounded-lg transition-colors duration-200 flex items-center gap-1.5 text-xs font-medium',
+    style: {
+      backgroundColor: active ? 'var(--primary)' : 'var(--surface-elevated)',
+      color: active ? 'white' : 'var(--text-secondary)',
+    },
+  });
+
+  return (
+    <div className='space-y-4'>
+      {/* Canvas */}
+      <div
+        className='relative rounded-2xl overflow-hidden border-2 flex items-center justify-center bg-black/80'
+        style={{ borderColor: 'var(--primary)' }}>
+        {base ? (
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className='max-w-full max-h-80 cursor-crosshair touch-none'
+          />
+        ) : (
+          <p className='h-80 flex items-center text-sm text-white/70'>Loading image...</p>
+        )}
+      </div>
+
+      {/* Tools */}
+      <div className='flex flex-wrap items-center gap-2'>
+        {TOOLS.map(({ tool: option, label, icon: Icon }) => (
+          <button key={option} onClick={() => setTool(option)} title={label} {...toolbarButton(tool === option)}>
+            <Icon className='w-4 h-4' />
+            {label}
+          </button>
+        ))}
+
+        <div className='flex items-center gap-1 px-1'>
+          {COLORS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setColor(option)}
+              className='w-6 h-6 rounded-full border-2'
+              style={{ backgroundColor: option, borderColor: color === option ? 'var(--text-primary)' : 'transparent' }}
+              title='Annotation color'
+              aria-label={`Color ${option}`}
+            />
+          ))}
+        </div>
+
+        <div className='flex items-center gap-1 ml-auto'>
+          <button onClick={() => rotate(false)} title='Rotate left' {...toolbarButton(false)}>
+            <ArrowUturnLeftIcon className='w-4 h-4' />
+          </button>
+          <button onClick={() => rotate(true)} title='Rotate right' {...toolbarButton(false)}>
+            <ArrowUturnRightIcon className='w-4 h-4' />
+          </button>
+          <button onClick={() => flip(true)} title='Flip horizontally' {...toolbarButton(false)}>
+            <ArrowsRightLeftIcon className='w-4 h-4' />
+          </button>
+          <button onClick={() => flip(false)} title='Flip vertically' {...toolbarButton(false)}>
+            <ArrowsUpDownIcon className='w-4 h-4' />
+          </button>
+          <button
+            onClick={() => setShapes((prev) => prev.slice(0, -1))}
+            disabled={shapes.length === 0}
+            title='Undo last annotation'
+            {...toolbarButton(false)}>
+            <BackspaceIcon className='w-4 h-4' />
+          </button>
+          <button onClick={reset} disabled={!isEdited} title='Reset all edits' {...toolbarButton(false)}>
+            <ArrowPathIcon className='w-4 h-4' />
+          </button>
+        </div>
+      </div>
+
+      {tool === 'crop' && (
+        <p className='text-xs' style={{ color: 'var(--text-muted)' }}>
+          Drag over the image to choose the area to keep.
+          {cropRect && (
+            <button onClick={applyCrop} className='ml-2 font-medium underline' style={{ color: 'var(--primary)' }}>
+              Apply crop
+            </button>
+          )}
+        </p>
+      )}
+
+      {/* Actions */}
+      <div className='flex justify-center gap-4'>
+        <button
+          onClick={save}
+          disabled={!base || isSaving}
+          className='px-6 py-3 rounded-xl font-medium transition-all duration-200 hover:shadow-lg flex items-center gap-2 text-white disabled:opacity-50'
+          style={{ backgroundColor: 'var(--primary)' }}>
+          <CheckIcon className='w-5 h-5' />
+          {isSaving ? 'Saving...' : 'Use Image'}
+        </button>
+        <button
+          onClick={onCancel}
+          className='px-6 py-3 rounded-xl font-medium transition-all duration-200 hover:shadow-lg flex items-center gap-2'
+          style={{
+            backgroundColor: 'var(--surface-elevated)',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--border)',
+          }}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
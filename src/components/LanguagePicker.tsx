@@ -0,0 +1,117 @@
+'use client';
+
+import { AUTO_LANGUAGE, getLanguage, getVoicesForLanguage, LANGUAGES } from '@/lib/languages';
+import { Popover, PopoverButton, PopoverPanel } from '@headlessui/react';
+import { LanguageIcon } from '@heroicons/react/24/outline';
+import { useEffect, useState } from 'react';
+
+interface LanguagePickerProps {
+  language: string;
+  voiceURI?: string;
+  onLanguageChange: (language: string) => void;
+  onVoiceChange: (voiceURI: string | undefined) => void;
+  disabled?: boolean;
+}
+
+// One language for recognition, replies and read-out; the voice list comes from the browser
+export default function LanguagePicker({
+  language,
+  voiceURI,
+  onLanguageChange,
+  onVoiceChange,
+  disabled = false,
+}: LanguagePickerProps) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Chrome loads voices asynchronously and announces them with "voiceschanged"
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const loadVoices = () => setVoices(getVoicesForLanguage(language));
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, [language]);
+
+  const current = getLanguage(language);
+
+  return (
+    <Popover className='relative'>
+      <PopoverButton
+        disabled={disabled}
+        className='flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border focus:outline-none focus:ring-2 disabled:opacity-50'
+        style={{
+          backgroundColor: 'var(--surface-elevated)',
+          borderColor: 'var(--border)',
+          color: 'var(--text-primary)',
+        }}
+        title='Language'>
+        <LanguageIcon className='w-4 h-4' style={{ color: 'var(--text-muted)' }} />
+        {current ? current.label : 'Auto'}
+      </PopoverButton>
+
+      <PopoverPanel
+        anchor='bottom end'
+        className='z-20 w-72 mt-2 p-5 rounded-2xl border shadow-lg space-y-5'
+        style={{
+          backgroundColor: 'var(--surface)',
+          borderColor: 'var(--border)',
+          boxShadow: 'var(--shadow-lg)',
+        }}>
+        {/* Language */}
+        <div>
+          <label className='block text-xs font-medium mb-2' style={{ color: 'var(--text-secondary)' }}>
+            Language
+          </label>
+          <select
+            value={language}
+            onChange={(e) => onLanguageChange(e.target.value)}
+            className='w-full p-2 rounded-lg text-sm focus:outline-none focus:ring-2'
+            style={{
+              backgroundColor: 'var(--surface-elevated)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border)',
+            }}>
+            <option value={AUTO_LANGUAGE}>Auto (browser language)</option>
+            {LANGUAGES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className='text-xs mt-1' style={{ color: 'var(--text-muted)' }}>
+            Used for voice input, replies and read-out.
+          </p>
+        </div>
+
+        {/* Voice */}
+        <div>
+          <label className='block text-xs font-medium mb-2' style={{ color: 'var(--text-secondary)' }}>
+            Voice
+          </label>
+          <select
+            value={voices.some((voice) => voice.voiceURI === voiceURI) ? voiceURI : ''}
+            onChange={(e) => onVoiceChange(e.target.value || undefined)}
+            disabled={voices.length === 0}
+            className='w-full p-2 rounded-lg text-sm focus:outline-none focus:ring-2 disabled:opacity-50'
+            style={{
+              backgroundColor: 'var(--surface-elevated)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border)',
+            }}>
+            <option value=''>Default voice</option>
+            {voices.map((voice) => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>
+                {voice.name} ({voice.lang})
+              </option>
+            ))}
+          </select>
+          {voices.length === 0 && (
+            <p className='text-xs mt-1' style={{ color: 'var(--text-muted)' }}>
+              This browser has no voice for {current?.label ?? 'this language'}.
+            </p>
+          )}
+        </div>
+      </PopoverPanel>
+    </Popover>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { CheckIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import { useRef, useState } from 'react';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import remarkGfm from 'remark-gfm';
+
+interface MarkdownProps {
+  content: string;
+  // Blocks that mention this term are highlighted, e.g. the object hovered in the image
+  highlightTerm?: string;
+}
+
+type MarkdownNode = NonNullable<ExtraProps['node']>;
+
+function getText(node: MarkdownNode | MarkdownNode['children'][number]): string {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(getText).join('');
+  return '';
+}
+
+function CodeBlock({ children }: { children?: React.ReactNode }) {
+  const [copied, setCopied] = useState(false);
+  const preRef = useRef<HTMLPreElement>(null);
+
+  // Copy the rendered text, which is the code without highlighting markup
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className='relative group/code my-3'>
+      <pre ref={preRef} className='overflow-x-auto rounded-lg p-3 text-xs leading-relaxed bg-slate-900 text-slate-100'>
+        {children}
+      </pre>
+      <button
+        onClick={copyCode}
+        className='absolute top-2 right-2 flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-slate-700 text-slate-100 opacity-0 group-hover/code:opacity-100 focus:opacity-100 transition-opacity'
+        title='Copy code'>
+        {copied ? <CheckIcon className='w-3.5 h-3.5' /> : <ClipboardDocumentIcon className='w-3.5 h-3.5' />}
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
+
+// Renders assistant replies as GitHub-flavored markdown. Raw HTML in the reply is dropped rather than rendered
+export default function Markdown({ content, highlightTerm }: MarkdownProps) {
+  const term = highlightTerm?.toLowerCase();
+  const highlightStyle = (node?: MarkdownNode) =>
+    term && node && getText(node).toLowerCase().includes(term)
+      ? { backgroundColor: 'rgb(217 119 6 / 0.25)', borderRadius: '0.25rem' }
+      : undefined;
+
+  const components: Components = {
+    pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+    a: ({ href, children }) => (
+      <a
+        href={href}
+        target='_blank'
+        rel='noopener noreferrer'
+        className='underline'
+        style={{ color: 'var(--primary)' }}>
+        {children}
+      </a>
+    ),
+    p: ({ node, children }) => (
+      <p className='my-2 first:mt-0 last:mb-0' style={highlightStyle(node)}>
+        {children}
+      </p>
+    ),
+    li: ({ node, children }) => <li style={highlightStyle(node)}>{children}</li>,
+    ul: ({ children }) => <ul className='my-2 pl-5 list-disc space-y-1'>{children}</ul>,
+    ol: ({ children }) => <ol className='my-2 pl-5 list-decimal space-y-1'>{children}</ol>,
+    h1: ({ children }) => <h3 className='mt-3 mb-2 text-base font-semibold'>{children}</h3>,
+    h2: ({ children }) => <h3 className='mt-3 mb-2 text-base font-semibold'>{children}</h3>,
+    h3: ({ children }) => <h4 className='mt-3 mb-1 font-semibold'>{children}</h4>,
+    h4: ({ children }) => <h4 className='mt-3 mb-1 font-semibold'>{children}</h4>,
+    blockquote: ({ children }) => (
+      <blockquote className='my-2 pl-3 border-l-2 opacity-80' style={{ borderColor: 'var(--border)' }}>
+        {children}
+      </blockquote>
+    ),
+    table: ({ children }) => (
+      <div className='my-3 overflow-x-auto'>
+        <table className='w-full text-sm border-collapse'>{children}</table>
+      </div>
+    ),
+    th: ({ node, children, style }) => (
+      <th
+        className='px-2 py-1 text-left font-semibold border-b'
+        style={{ ...style, borderColor: 'var(--border)', ...highlightStyle(node) }}>
+        {children}
+      </th>
+    ),
+    td: ({ node, children, style }) => (
+      <td
+        className='px-2 py-1 border-b'
+        style={{ ...style, borderColor: 'var(--border-light)', ...highlightStyle(node) }}>
+        {children}
+      </td>
+    ),
+    hr: () => <hr className='my-3' style={{ borderColor: 'var(--border)' }} />,
+  };
+
+  return (
+    <div className='markdown leading-relaxed break-words'>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { detect: true }]]}
+        components={components}
+        skipHtml>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { getPersona, PERSONAS } from '@/lib/personas';
+import { Listbox, ListboxButton, ListboxOption, ListboxOptions } from '@headlessui/react';
+import { CheckIcon, ChevronUpDownIcon } from '@heroicons/react/24/outline';
+
+interface PersonaPickerProps {
+  personaId: string;
+  onChange: (personaId: string) => void;
+  disabled?: boolean;
+}
+
+export default function PersonaPicker({ personaId, onChange, disabled = false }: PersonaPickerProps) {
+  const current = getPersona(personaId) ?? PERSONAS[0];
+
+  return (
+    <Listbox value={current.id} onChange={onChange} disabled={disabled}>
+      <ListboxButton
+        className='flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium border focus:outline-none focus:ring-2 disabled:opacity-50'
+        style={{
+          backgroundColor: 'var(--surface-elevated)',
+          borderColor: 'var(--border)',
+          color: 'var(--text-primary)',
+        }}>
+        {current.label}
+        <ChevronUpDownIcon className='w-4 h-4' style={{ color: 'var(--text-muted)' }} />
+      </ListboxButton>
+
+      <ListboxOptions
+        anchor='bottom end'
+        className='z-20 w-72 mt-2 p-1 rounded-xl border shadow-lg focus:outline-none'
+        style={{
+          backgroundColor: 'var(--surface)',
+          borderColor: 'var(--border)',
+          boxShadow: 'var(--shadow-lg)',
+        }}>
+        {PERSONAS.map((persona) => (
+          <ListboxOption
+            key={persona.id}
+            value={persona.id}
+            className='group flex items-start gap-2 p-2 rounded-lg cursor-pointer data-[focus]:bg-black/5'>
+            <CheckIcon
+              className='w-4 h-4 mt-0.5 invisible group-data-[selected]:visible'
+              style={{ color: 'var(--primary)' }}
+            />
+            <div>
+              <p className='text-sm font-medium' style={{ color: 'var(--text-primary)' }}>
+                {persona.label}
+              </p>
+              <p className='text-xs' style={{ color: 'var(--text-muted)' }}>
+                {persona.description}
+              </p>
+            </div>
+          </ListboxOption>
+        ))}
+      </ListboxOptions>
+    </Listbox>
+  );
+}
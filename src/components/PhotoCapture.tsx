@@ -1,43 +1,240 @@
 'use client';
 
-import { ArrowUpTrayIcon, CameraIcon, PhotoIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+  buildVideoConstraints,
+  CAMERA_RESOLUTIONS,
+  CameraCapabilities,
+  CameraOptions,
+  getCameraCapabilities,
+  getCameraErrorMessage,
+  listCameras,
+  loadCameraPreferences,
+  saveCameraPreferences,
+} from '@/lib/camera';
+import {
+  captureFrame,
+  CHANGE_THRESHOLD,
+  DEFAULT_LIVE_INTERVAL_MS,
+  frameDifference,
+  getFrameSignature,
+  LIVE_INTERVALS,
+} from '@/lib/frame-sampling';
+import { getImageFiles, IMAGE_ACCEPT } from '@/lib/image-files';
+import { BoundingBox, DetectedObject, ImageUpload } from '@/types/conversation';
+import {
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  BoltIcon,
+  BoltSlashIcon,
+  CameraIcon,
+  EyeIcon,
+  ExclamationTriangleIcon,
+  PhotoIcon,
+  StopIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
 import Image from 'next/image';
-import { useRef, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import BoundingBoxOverlay from './BoundingBoxOverlay';
+import ImageEditor from './ImageEditor';
 
 interface PhotoCaptureProps {
-  onImageCapture: (imageUrl: string) => void;
+  // Receives the capture or file after the optional editing step, with any areas the user marked;
+  // null clears the images. Validation and resizing happen on upload
+  onImageCapture: (image: Blob | null, highlights?: BoundingBox[]) => void | Promise<void>;
   currentImage?: string;
-  disabled?: boolean;
+  error?: string | null;
+  detections?: DetectedObject[];
+  hoveredObject?: DetectedObject | null;
+  onObjectHover?: (object: DetectedObject | null) => void;
+  onObjectSelect?: (object: DetectedObject) => void;
+  // Live lens: receives changed frames while live; the next frame waits until the promise settles
+  onLiveFrame?: (frame: Blob, question: string) => Promise<void>;
+  onLiveChange?: (active: boolean) => void;
+  // Several files picked at once skip the editor and upload as a batch
+  onImageFiles?: (files: File[]) => void;
+  uploads?: ImageUpload[];
+  onDismissUpload?: (id: string) => void;
 }
 
-export default function PhotoCapture({ onImageCapture, currentImage, disabled = false }: PhotoCaptureProps) {
+const UPLOAD_STATUS_LABELS: Record<ImageUpload['status'], string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading...',
+  done: 'Added',
+  error: 'Failed',
+};
+
+export default function PhotoCapture({
+  onImageCapture,
+  currentImage,
+  error,
+  detections = [],
+  hoveredObject,
+  onObjectHover,
+  onObjectSelect,
+  onLiveFrame,
+  onLiveChange,
+  onImageFiles,
+  uploads = [],
+  onDismissUpload,
+}: PhotoCaptureProps) {
   const [isCapturing, setIsCapturing] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [editingImage, setEditingImage] = useState<Blob | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraOptions, setCameraOptions] = useState<CameraOptions>({ facingMode: 'environment', resolution: 'auto' });
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>({});
+  const [torchOn, setTorchOn] = useState(false);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [liveQuestion, setLiveQuestion] = useState('');
+  const [liveInterval, setLiveInterval] = useState(DEFAULT_LIVE_INTERVAL_MS);
+  const onLiveFrameRef = useRef(onLiveFrame);
+  onLiveFrameRef.current = onLiveFrame;
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const startCamera = async () => {
-    if (disabled) return;
+  // Restore the camera and resolution chosen on a previous visit
+  useEffect(() => {
+    setCameraOptions((prev) => ({ ...prev, ...loadCameraPreferences() }));
+  }, []);
 
-    try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment' }, // Try to use back camera on mobile
-      });
-      setStream(mediaStream);
-      setIsCapturing(true);
-
-      if (videoRef.current) {
-        videoRef.current.srcObject = mediaStream;
+  // The video element only exists while capturing, so attach the stream once it has rendered
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, isCapturing]);
+
+  // Release the camera when switching streams or leaving the page
+  useEffect(() => {
+    return () => stream?.getTracks().forEach((track) => track.stop());
+  }, [stream]);
+
+  // Sample the preview on a timer, sending only frames that differ from the last one sent.
+  // The question is locked while live, so it can be read once here
+  useEffect(() => {
+    if (!isLive || !isCapturing) return;
+
+    let cancelled = false;
+    let pending = false;
+    let lastSignature: Uint8Array | null = null;
+
+    const sample = async () => {
+      const video = videoRef.current;
+      if (pending || !video || video.readyState < video.HAVE_CURRENT_DATA) return;
+
+      const signature = getFrameSignature(video);
+      if (lastSignature && frameDifference(signature, lastSignature) < CHANGE_THRESHOLD) return;
+
+      pending = true;
+      try {
+        const frame = await captureFrame(video);
+        if (!frame || cancelled) return;
+        lastSignature = signature;
+        await onLiveFrameRef.current?.(frame, liveQuestion.trim());
+      } catch (error) {
+        console.error('Error sampling live frame:', error);
+      } finally {
+        pending = false;
       }
+    };
+
+    sample();
+    const timer = setInterval(sample, liveInterval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isLive, isCapturing, liveInterval, liveQuestion]);
+
+  const setLive = (active: boolean) => {
+    setIsLive(active);
+    onLiveChange?.(active);
+  };
+
+  const startCamera = async (changes: Partial<CameraOptions> = {}) => {
+    setCameraError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError(
+        'The camera needs a secure (HTTPS) connection in a supported browser. You can upload an image instead.',
+      );
+      return;
+    }
+
+    const options = { ...cameraOptions, ...changes };
+    // Phones often can't open a second camera while the first is still running
+    stream?.getTracks().forEach((track) => track.stop());
+
+    let mediaStream: MediaStream;
+    try {
+      mediaStream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(options) });
     } catch (error) {
-      console.error('Error accessing camera:', error);
-      // Fallback to file input if camera fails
-      if (!disabled) {
-        fileInputRef.current?.click();
+      // The remembered camera may have been unplugged; try the default one before giving up
+      const missingDevice =
+        error instanceof DOMException && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+      if (options.deviceId && missingDevice) {
+        return startCamera({ ...changes, deviceId: undefined });
       }
+
+      console.error('Error accessing camera:', error);
+      setStream(null);
+      setIsCapturing(false);
+      setCameraError(getCameraErrorMessage(error));
+      return;
     }
+
+    const track = mediaStream.getVideoTracks()[0];
+    const trackSettings = track.getSettings() as MediaTrackSettings & { zoom?: number };
+    const opened = { ...options, deviceId: trackSettings.deviceId || options.deviceId };
+    setCameraOptions(opened);
+    saveCameraPreferences({ deviceId: opened.deviceId, resolution: opened.resolution });
+
+    setStream(mediaStream);
+    setIsCapturing(true);
+    setCapabilities(getCameraCapabilities(track));
+    setTorchOn(false);
+    setZoom(trackSettings.zoom ?? null);
+
+    // Device labels are only available once camera permission has been granted
+    listCameras()
+      .then(setCameras)
+      .catch((error) => console.error('Failed to list cameras:', error));
+  };
+
+  // Front/back toggle for phones, which report a facing mode for their cameras
+  const switchFacingMode = () => {
+    startCamera({
+      facingMode: cameraOptions.facingMode === 'environment' ? 'user' : 'environment',
+      deviceId: undefined,
+    });
+  };
+
+  const applyTrackSetting = async (setting: Record<string, boolean | number>) => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return false;
+    try {
+      await track.applyConstraints({ advanced: [setting as MediaTrackConstraintSet] });
+      return true;
+    } catch (error) {
+      console.error('Error applying camera setting:', error);
+      return false;
+    }
+  };
+
+  const toggleTorch = async () => {
+    if (await applyTrackSetting({ torch: !torchOn })) {
+      setTorchOn(!torchOn);
+    }
+  };
+
+  const handleZoomChange = (value: number) => {
+    setZoom(value);
+    applyTrackSetting({ zoom: value });
   };
 
   const stopCamera = () => {
@@ -46,6 +243,8 @@ export default function PhotoCapture({ onImageCapture, currentImage, disabled =
       setStream(null);
     }
     setIsCapturing(false);
+    setTorchOn(false);
+    if (isLive) setLive(false);
   };
 
   const capturePhoto = () => {
@@ -55,82 +254,57 @@ export default function PhotoCapture({ onImageCapture, currentImage, disabled =
       const context = canvas.getContext('2d');
 
       if (context) {
-        // Set max dimensions for demo (reduce size)
-        const maxWidth = 800;
-        let { videoWidth: width, videoHeight: height } = video;
-
-        if (width > maxWidth) {
-          height = (height * maxWidth) / width;
-          width = maxWidth;
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-        context.drawImage(video, 0, 0, width, height);
-
-        // Use higher compression for camera captures
-        const imageUrl = canvas.toDataURL('image/jpeg', 0.6);
-        onImageCapture(imageUrl);
-        stopCamera();
+        // Capture at full resolution for the editor; captures over the upload limit are downscaled before upload
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        canvas.toBlob(
+          (blob) => {
+            stopCamera();
+            if (blob) setEditingImage(blob);
+          },
+          'image/jpeg',
+          0.9,
+        );
       }
     }
   };
 
-  const compressImage = (file: File, maxWidth: number = 800, quality: number = 0.8): Promise<string> => {
-    return new Promise((resolve) => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      const img = new window.Image();
-
-      img.onload = () => {
-        // Calculate new dimensions
-        let { width, height } = img;
-        if (width > maxWidth) {
-          height = (height * maxWidth) / width;
-          width = maxWidth;
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-
-        // Draw and compress
-        ctx?.drawImage(img, 0, 0, width, height);
-        const compressedDataUrl = canvas.toDataURL('image/jpeg', quality);
-        resolve(compressedDataUrl);
-      };
-
-      img.src = URL.createObjectURL(file);
-    });
-  };
-
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (disabled) return;
+    const files = getImageFiles(event.target.files);
+    // Allow picking the same file again
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    if (files.length > 1 && onImageFiles) {
+      onImageFiles(files);
+      return;
+    }
+    const [file] = files;
 
-    const file = event.target.files?.[0];
-    if (file) {
-      setIsProcessing(true);
-      try {
-        // Compress image before uploading
-        const compressedImageUrl = await compressImage(file);
-        onImageCapture(compressedImageUrl);
-      } catch (error) {
-        console.error('Error compressing image:', error);
-        // Fallback to original file
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          const imageUrl = e.target?.result as string;
-          onImageCapture(imageUrl);
-        };
-        reader.readAsDataURL(file);
-      } finally {
-        setIsProcessing(false);
-      }
+    // The editor hands back the original file when nothing is changed, so the server still sees its real type
+    setEditingImage(file);
+  };
+
+  const handleEditDone = async (image: Blob, highlights: BoundingBox[]) => {
+    setEditingImage(null);
+    setIsProcessing(true);
+    try {
+      await onImageCapture(image, highlights);
+    } finally {
+      setIsProcessing(false);
     }
   };
+
   const clearImage = () => {
-    onImageCapture('');
+    onImageCapture(null);
   };
 
+  if (editingImage) {
+    return <ImageEditor image={editingImage} onDone={handleEditDone} onCancel={() => setEditingImage(null)} />;
+  }
+
   return (
     <div className='w-full space-y-6'>
       {/* Current Image Display */}
@@ -148,6 +322,19 @@ export default function PhotoCapture({ onImageCapture, currentImage, disabled =
               unoptimized
             />
 
+            {/* Detected object boxes */}
+            {detections.length > 0 && (
+              <div className='absolute inset-0 z-10 pointer-events-none'>
+                <BoundingBoxOverlay
+                  src={currentImage}
+                  objects={detections}
+                  hoveredObject={hoveredObject}
+                  onHover={onObjectHover}
+                  onSelect={onObjectSelect}
+                />
+              </div>
+            )}
+
             {/* Overlay on hover */}
             <div className='absolute inset-0 bg-black/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center'>
               <button
@@ -182,13 +369,139 @@ export default function PhotoCapture({ onImageCapture, currentImage, disabled =
               <div className='absolute top-4 left-4 right-4 flex justify-between items-center'>
                 <div
                   className='px-3 py-1.5 rounded-full text-xs font-medium'
-                  style={{ backgroundColor: 'var(--primary)', color: 'white' }}>
-                  Camera Active
+                  style={{ backgroundColor: isLive ? 'var(--error)' : 'var(--primary)', color: 'white' }}>
+                  {isLive ? '● Live lens' : 'Camera Active'}
+                </div>
+
+                <div className='flex gap-2 pointer-events-auto'>
+                  {capabilities.torch && (
+                    <button
+                      onClick={toggleTorch}
+                      className='p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors'
+                      title={torchOn ? 'Turn off torch' : 'Turn on torch'}>
+                      {torchOn ? <BoltSlashIcon className='w-5 h-5' /> : <BoltIcon className='w-5 h-5' />}
+                    </button>
+                  )}
+                  {!!capabilities.facingMode?.length && (
+                    <button
+                      onClick={switchFacingMode}
+                      className='p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors'
+                      title={
+                        cameraOptions.facingMode === 'environment' ? 'Switch to front camera' : 'Switch to back camera'
+                      }>
+                      <ArrowPathIcon className='w-5 h-5' />
+                    </button>
+                  )}
                 </div>
               </div>
+
+              {/* Zoom */}
+              {capabilities.zoom && zoom !== null && (
+                <div className='absolute bottom-4 left-4 right-4 flex items-center gap-3 pointer-events-auto'>
+                  <input
+                    type='range'
+                    min={capabilities.zoom.min}
+                    max={capabilities.zoom.max}
+                    step={capabilities.zoom.step || 0.1}
+                    value={zoom}
+                    onChange={(e) => handleZoomChange(Number(e.target.value))}
+                    className='flex-1 cursor-pointer'
+                    style={{ accentColor: 'var(--primary)' }}
+                    aria-label='Zoom'
+                  />
+                  <span className='px-2 py-0.5 rounded-full bg-black/50 text-white text-xs tabular-nums'>
+                    {zoom.toFixed(1)}x
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Camera settings */}
+          <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+            {cameras.length > 1 && (
+              <select
+                value={cameraOptions.deviceId ?? ''}
+                onChange={(e) => startCamera({ deviceId: e.target.value })}
+                className='w-full p-2 rounded-lg text-sm focus:outline-none focus:ring-2'
+                style={{
+                  backgroundColor: 'var(--surface-elevated)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border)',
+                }}
+                aria-label='Camera'>
+                {cameras.map((camera, index) => (
+                  <option key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || `Camera ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={cameraOptions.resolution}
+              onChange={(e) => startCamera({ resolution: e.target.value })}
+              className='w-full p-2 rounded-lg text-sm focus:outline-none focus:ring-2'
+              style={{
+                backgroundColor: 'var(--surface-elevated)',
+                color: 'var(--text-primary)',
+                border: '1px solid var(--border)',
+              }}
+              aria-label='Resolution'>
+              {CAMERA_RESOLUTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.id === 'auto' ? 'Resolution: Auto' : option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Live lens */}
+          {onLiveFrame && (
+            <div className='flex flex-col sm:flex-row gap-3'>
+              <input
+                type='text'
+                value={liveQuestion}
+                onChange={(e) => setLiveQuestion(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && liveQuestion.trim() && !isLive) setLive(true);
+                }}
+                disabled={isLive}
+                placeholder='Watch for... e.g. "tell me when a person enters"'
+                className='flex-1 p-2 rounded-lg text-sm focus:outline-none focus:ring-2 disabled:opacity-60'
+                style={{
+                  backgroundColor: 'var(--surface-elevated)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border)',
+                }}
+                aria-label='Live lens question'
+              />
+              <select
+                value={liveInterval}
+                onChange={(e) => setLiveInterval(Number(e.target.value))}
+                className='p-2 rounded-lg text-sm focus:outline-none focus:ring-2'
+                style={{
+                  backgroundColor: 'var(--surface-elevated)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border)',
+                }}
+                aria-label='Sampling interval'>
+                {LIVE_INTERVALS.map((option) => (
+                  <option key={option.ms} value={option.ms}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setLive(!isLive)}
+                disabled={!isLive && !liveQuestion.trim()}
+                className='px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 text-white disabled:opacity-50 disabled:cursor-not-allowed'
+                style={{ backgroundColor: isLive ? 'var(--error)' : 'var(--primary)' }}>
+                {isLive ? <StopIcon className='w-4 h-4' /> : <EyeIcon className='w-4 h-4' />}
+                {isLive ? 'Stop live' : 'Go live'}
+              </button>
+            </div>
+          )}
+
           <canvas ref={canvasRef} className='hidden' />
 
           <div className='flex justify-center gap-4'>
@@ -239,21 +552,21 @@ export default function PhotoCapture({ onImageCapture, currentImage, disabled =
       {!isCapturing && (
         <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
           <button
-            onClick={startCamera}
-            disabled={disabled || isProcessing}
+            onClick={() => startCamera()}
+            disabled={isProcessing}
             className={`p-4 rounded-xl font-medium transition-all duration-200 flex items-center justify-center gap-3 text-white ${
-              disabled || isProcessing ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg hover:-translate-y-0.5'
+              isProcessing ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg hover:-translate-y-0.5'
             }`}
             style={{ backgroundColor: 'var(--primary)' }}>
             <CameraIcon className='w-5 h-5' />
-            <span>{isProcessing ? 'Processing...' : disabled ? 'Demo Limit Reached' : 'Take Photo'}</span>
+            <span>{isProcessing ? 'Processing...' : 'Take Photo'}</span>
           </button>
 
           <button
             onClick={() => fileInputRef.current?.click()}
-            disabled={disabled || isProcessing}
+            disabled={isProcessing}
             className={`p-4 rounded-xl font-medium transition-all duration-200 flex items-center justify-center gap-3 ${
-              disabled || isProcessing ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg hover:-translate-y-0.5'
+              isProcessing ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg hover:-translate-y-0.5'
             }`}
             style={{
               backgroundColor: 'var(--surface-elevated)',
@@ -261,16 +574,88 @@ export default function PhotoCapture({ onImageCapture, currentImage, disabled =
               border: '1px solid var(--border)',
             }}>
             <ArrowUpTrayIcon className='w-5 h-5' />
-            <span>{isProcessing ? 'Processing...' : disabled ? 'Max 3 Images' : 'Upload Image'}</span>
+            <span>{isProcessing ? 'Processing...' : 'Upload Image'}</span>
           </button>
         </div>
       )}
 
+      {/* Camera error */}
+      {cameraError && !isCapturing && (
+        <div
+          className='p-4 rounded-xl border flex items-start gap-3'
+          style={{
+            backgroundColor: 'var(--surface-elevated)',
+            borderColor: 'var(--error)',
+            color: 'var(--error)',
+          }}>
+          <ExclamationTriangleIcon className='w-5 h-5 flex-shrink-0 mt-0.5' />
+          <div className='flex-1'>
+            <p className='text-sm'>{cameraError}</p>
+            <div className='flex gap-3 mt-2 text-sm font-medium'>
+              <button onClick={() => startCamera()} className='underline'>
+                Try again
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className='underline'>
+                Upload instead
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Upload error */}
+      {error && (
+        <p className='text-sm text-center' style={{ color: 'var(--error)' }}>
+          {error}
+        </p>
+      )}
+
+      {/* Per-file upload status */}
+      {uploads.length > 0 && (
+        <ul className='space-y-2'>
+          {uploads.map((upload) => (
+            <li
+              key={upload.id}
+              className='flex items-center gap-3 p-3 rounded-xl border text-sm'
+              style={{ borderColor: 'var(--border)', backgroundColor: 'var(--surface-elevated)' }}>
+              {upload.status === 'error' ? (
+                <ExclamationTriangleIcon className='w-4 h-4 flex-shrink-0' style={{ color: 'var(--error)' }} />
+              ) : (
+                <ArrowUpTrayIcon
+                  className={`w-4 h-4 flex-shrink-0 ${upload.status === 'uploading' ? 'animate-pulse' : ''}`}
+                  style={{ color: 'var(--text-muted)' }}
+                />
+              )}
+              <div className='flex-1 min-w-0'>
+                <p className='truncate' style={{ color: 'var(--text-primary)' }}>
+                  {upload.name}
+                </p>
+                <p
+                  className='text-xs'
+                  style={{ color: upload.status === 'error' ? 'var(--error)' : 'var(--text-muted)' }}>
+                  {UPLOAD_STATUS_LABELS[upload.status]}
+                  {upload.error && `: ${upload.error}`}
+                </p>
+              </div>
+              {upload.status === 'error' && onDismissUpload && (
+                <button
+                  onClick={() => onDismissUpload(upload.id)}
+                  className='p-1 rounded-lg hover:opacity-70'
+                  style={{ color: 'var(--text-muted)' }}
+                  title='Dismiss'>
+                  <XMarkIcon className='w-4 h-4' />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Show replace button when image exists */}
       {currentImage && !isCapturing && (
         <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
           <button
-            onClick={startCamera}
+            onClick={() => startCamera()}
             className='p-3 rounded-xl font-medium transition-all duration-200 hover:shadow-lg flex items-center justify-center gap-2'
             style={{
               backgroundColor: 'var(--surface-elevated)',
@@ -296,7 +681,14 @@ export default function PhotoCapture({ onImageCapture, currentImage, disabled =
       )}
 
       {/* Hidden File Input */}
-      <input ref={fileInputRef} type='file' accept='image/*' onChange={handleFileUpload} className='hidden' />
+      <input
+        ref={fileInputRef}
+        type='file'
+        accept={IMAGE_ACCEPT}
+        multiple={!!onImageFiles}
+        onChange={handleFileUpload}
+        className='hidden'
+      />
     </div>
   );
 }
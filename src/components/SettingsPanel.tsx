@@ -0,0 +1,149 @@
+'use client';
+
+import { ALLOWED_MODELS, getModelOption, RESPONSE_LENGTH_PRESETS } from '@/lib/models';
+import { GenerationSettings, ResponseLength } from '@/types/conversation';
+import { Popover, PopoverButton, PopoverPanel } from '@headlessui/react';
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
+
+interface SettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+export default function SettingsPanel({ settings, onChange }: SettingsPanelProps) {
+  const currentModel = getModelOption(settings.model) ?? ALLOWED_MODELS[0];
+
+  const update = (changes: Partial<GenerationSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const handleModelChange = (modelId: string) => {
+    const model = getModelOption(modelId);
+    if (!model) return;
+    // Keep max tokens within what the new model supports
+    update({ model: model.id, maxOutputTokens: Math.min(settings.maxOutputTokens, model.maxOutputTokens) });
+  };
+
+  // A length preset sets both the word limit in the prompt and a matching token cap
+  const handleLengthChange = (responseLength: ResponseLength) => {
+    update({ responseLength, maxOutputTokens: RESPONSE_LENGTH_PRESETS[responseLength].maxOutputTokens });
+  };
+
+  return (
+    <Popover className='relative'>
+      <PopoverButton
+        className='flex items-center gap-2 px-3 py-1.5 rounded-full text-xs focus:outline-none focus:ring-2'
+        style={{ backgroundColor: 'var(--surface-elevated)', color: 'var(--text-secondary)' }}>
+        <AdjustmentsHorizontalIcon className='w-4 h-4' />
+        {currentModel.label}
+      </PopoverButton>
+
+      <PopoverPanel
+        anchor='bottom end'
+        className='z-20 w-80 mt-2 p-5 rounded-2xl border shadow-lg space-y-5'
+        style={{
+          backgroundColor: 'var(--surface)',
+          borderColor: 'var(--border)',
+          boxShadow: 'var(--shadow-lg)',
+        }}>
+        {/* Model */}
+        <div>
+          <label className='block text-xs font-medium mb-2' style={{ color: 'var(--text-secondary)' }}>
+            Model
+          </label>
+          <select
+            value={currentModel.id}
+            onChange={(e) => handleModelChange(e.target.value)}
+            className='w-full p-2 rounded-lg text-sm focus:outline-none focus:ring-2'
+            style={{
+              backgroundColor: 'var(--surface-elevated)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border)',
+            }}>
+            {ALLOWED_MODELS.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.label}
+              </option>
+            ))}
+          </select>
+          <p className='text-xs mt-1' style={{ color: 'var(--text-muted)' }}>
+            {currentModel.description}
+          </p>
+        </div>
+
+        {/* Response length */}
+        <div>
+          <label className='block text-xs font-medium mb-2' style={{ color: 'var(--text-secondary)' }}>
+            Response length
+          </label>
+          <div className='p-1 rounded-xl flex gap-1' style={{ backgroundColor: 'var(--surface-elevated)' }}>
+            {(Object.keys(RESPONSE_LENGTH_PRESETS) as ResponseLength[]).map((length) => {
+              const isActive = settings.responseLength === length;
+              return (
+                <button
+                  key={length}
+                  onClick={() => handleLengthChange(length)}
+                  className={`flex-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-all duration-200 ${
+                    isActive ? 'shadow-sm' : ''
+                  }`}
+                  style={{
+                    backgroundColor: isActive ? 'var(--surface)' : 'transparent',
+                    color: isActive ? 'var(--primary)' : 'var(--text-secondary)',
+                  }}>
+                  {RESPONSE_LENGTH_PRESETS[length].label}
+                </button>
+              );
+            })}
+          </div>
+          <p className='text-xs mt-1' style={{ color: 'var(--text-muted)' }}>
+            Up to {RESPONSE_LENGTH_PRESETS[settings.responseLength].words} words
+          </p>
+        </div>
+
+        {/* Temperature */}
+        <div>
+          <label className='flex justify-between text-xs font-medium mb-2' style={{ color: 'var(--text-secondary)' }}>
+            <span>Temperature</span>
+            <span>{settings.temperature.toFixed(1)}</span>
+          </label>
+          <input
+            type='range'
+            min={0}
+            max={2}
+            step={0.1}
+            value={settings.temperature}
+            onChange={(e) => update({ temperature: Number(e.target.value) })}
+            className='w-full'
+          />
+        </div>
+
+        {/* Max tokens */}
+        <div>
+          <label className='block text-xs font-medium mb-2' style={{ color: 'var(--text-secondary)' }}>
+            Max output tokens
+          </label>
+          <input
+            type='number'
+            min={1}
+            max={currentModel.maxOutputTokens}
+            value={settings.maxOutputTokens}
+            onChange={(e) =>
+              update({
+                maxOutputTokens: Math.max(
+                  1,
+                  Math.min(currentModel.maxOutputTokens, Math.round(Number(e.target.value) || 1)),
+                ),
+              })
+            }
+            className='w-full p-2 rounded-lg text-sm focus:outline-none focus:ring-2'
+            style={{
+              backgroundColor: 'var(--surface-elevated)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border)',
+            }}
+          />
+        </div>
+      </PopoverPanel>
+    </Popover>
+  );
+}
@@ -1,29 +1,59 @@
 'use client';
 
+import { transcribeAudio } from '@/app/actions/chat';
+import { AUTO_LANGUAGE, getRecognitionLanguage } from '@/lib/languages';
 import { ExclamationTriangleIcon, MicrophoneIcon, StopIcon } from '@heroicons/react/24/outline';
 import { useEffect, useRef, useState } from 'react';
 
+// Recorder formats in order of preference; Chrome records WebM, Firefox Ogg and Safari MP4
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+const MAX_RECORDING_MS = 60_000;
+
+// Speech recognition errors that recording can work around
+const FALLBACK_ERRORS = ['language-not-supported', 'network', 'service-not-allowed'];
+
 interface VoiceInputProps {
-  onTranscript: (text: string) => void;
+  // 'auto' or a BCP-47 code for the browser's recognizer; server transcription detects the language itself
+  language?: string;
+  onTranscript: (text: string, language?: string) => void;
   onVoiceStart?: () => void;
   onVoiceEnd?: () => void;
 }
 
-export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: VoiceInputProps) {
+// 'speech' uses the browser's Web Speech API; 'recording' records a clip and transcribes it on the server
+type VoiceMode = 'speech' | 'recording';
+
+export default function VoiceInput({
+  language = AUTO_LANGUAGE,
+  onTranscript,
+  onVoiceStart,
+  onVoiceEnd,
+}: VoiceInputProps) {
+  const [mode, setMode] = useState<VoiceMode>('speech');
   const [isListening, setIsListening] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [isSupported, setIsSupported] = useState(true);
   const [errorMessage, setErrorMessage] = useState('');
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const canRecord = () => typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices;
 
   useEffect(() => {
     // Check if speech recognition is supported
     if (typeof window !== 'undefined') {
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
       if (!SpeechRecognition) {
-        console.warn('SpeechRecognition API not available');
-        setIsSupported(false);
-        setErrorMessage('Voice recognition is not supported in this browser.');
+        console.warn('SpeechRecognition API not available, using recording mode');
+        if (canRecord()) {
+          setMode('recording');
+        } else {
+          setIsSupported(false);
+          setErrorMessage('Voice recognition is not supported in this browser.');
+        }
         return;
       }
 
@@ -32,16 +62,7 @@ export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: V
         recognition.continuous = true;
         recognition.interimResults = true;
 
-        // Get user's preferred language and create fallback list
-        const browserLang = navigator.language || 'en-US';
-        const supportedLanguages = [browserLang, 'en-US', 'en', 'en-GB'];
-
-        // Remove duplicates and set primary language
-        const uniqueLanguages = [...new Set(supportedLanguages)];
-        recognition.lang = uniqueLanguages[0];
-
-        console.log(`Initializing speech recognition with language: ${recognition.lang}`);
-        console.log(`Fallback languages available: ${uniqueLanguages.slice(1).join(', ')}`);
+        recognition.lang = getRecognitionLanguage(language);
 
         recognition.onstart = () => {
           setIsListening(true);
@@ -73,36 +94,10 @@ export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: V
           console.error('Speech recognition error:', event.error);
 
           // Handle specific error cases
-          if (event.error === 'language-not-supported') {
-            console.warn(`Language ${recognition.lang} not supported, trying fallback languages...`);
-            setErrorMessage('Language not supported, trying alternatives...');
-
-            // Try fallback languages
-            const fallbackLangs = ['en-US', 'en', 'en-GB'];
-            let langIndex = 0;
-
-            const tryNextLanguage = () => {
-              if (langIndex < fallbackLangs.length) {
-                recognition.lang = fallbackLangs[langIndex];
-                langIndex++;
-                console.log(`Trying language: ${recognition.lang}`);
-
-                try {
-                  recognition.start();
-                  setErrorMessage('');
-                  return;
-                } catch (error) {
-                  console.error(`Failed to start with ${recognition.lang}:`, error);
-                  tryNextLanguage();
-                }
-              } else {
-                console.error('All fallback languages failed');
-                setErrorMessage('Voice recognition not available for your language');
-                setIsSupported(false);
-              }
-            };
-
-            tryNextLanguage();
+          if (FALLBACK_ERRORS.includes(event.error) && canRecord()) {
+            // Gemini detects the language itself, so recording works where the browser's recognizer doesn't
+            setMode('recording');
+            setErrorMessage('Browser voice recognition is unavailable. Switched to recording mode.');
           } else if (event.error === 'not-allowed') {
             console.error('Microphone access denied');
             setErrorMessage('Microphone access denied. Please allow microphone access to use voice input.');
@@ -128,8 +123,12 @@ export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: V
         recognitionRef.current = recognition;
       } catch (error) {
         console.error('Failed to initialize speech recognition:', error);
-        setIsSupported(false);
-        setErrorMessage('Failed to initialize voice recognition.');
+        if (canRecord()) {
+          setMode('recording');
+        } else {
+          setIsSupported(false);
+          setErrorMessage('Failed to initialize voice recognition.');
+        }
       }
     }
 
@@ -138,24 +137,111 @@ export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: V
         recognitionRef.current.stop();
       }
     };
-  }, [onTranscript, onVoiceStart, onVoiceEnd]);
+  }, [language, onTranscript, onVoiceStart, onVoiceEnd]);
+
+  // Release the microphone if the component goes away mid-recording
+  useEffect(() => {
+    return () => {
+      if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+        recorderRef.current.stream.getTracks().forEach((track) => track.stop());
+      }
+    };
+  }, []);
+
+  const transcribeRecording = async (audio: Blob) => {
+    setIsTranscribing(true);
+    try {
+      const formData = new FormData();
+      formData.append('audio', audio);
+
+      const response = await transcribeAudio(formData);
+      if (!response.success) {
+        setErrorMessage(response.error ?? 'Failed to transcribe audio.');
+      } else if (!response.text) {
+        setErrorMessage('No speech detected. Please try again.');
+      } else {
+        setTranscript(response.text);
+        onTranscript(response.text, response.language);
+      }
+    } catch (error) {
+      console.error('Error transcribing recording:', error);
+      setErrorMessage('Failed to transcribe audio. Please try again.');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      chunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => {
+        if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+        stream.getTracks().forEach((track) => track.stop());
+        setIsListening(false);
+        onVoiceEnd?.();
+        transcribeRecording(new Blob(chunksRef.current, { type: recorder.mimeType }));
+      };
+
+      recorder.start();
+      recorderRef.current = recorder;
+      setIsListening(true);
+      onVoiceStart?.();
+
+      // Stop long recordings automatically so the clip stays within the upload limit
+      stopTimerRef.current = setTimeout(() => {
+        if (recorder.state === 'recording') recorder.stop();
+      }, MAX_RECORDING_MS);
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        setErrorMessage('Microphone access denied. Please allow microphone access to use voice input.');
+      } else {
+        setErrorMessage('Failed to start recording. Please try again.');
+      }
+    }
+  };
 
   const startListening = () => {
-    if (recognitionRef.current && !isListening) {
-      setTranscript('');
-      setErrorMessage('');
+    if (isListening || isTranscribing) return;
+    setTranscript('');
+    setErrorMessage('');
+
+    if (mode === 'recording') {
+      startRecording();
+      return;
+    }
+
+    if (recognitionRef.current) {
       try {
         recognitionRef.current.start();
       } catch (error) {
         console.error('Failed to start speech recognition:', error);
-        setErrorMessage('Failed to start voice recognition. Please try again.');
+        if (canRecord()) {
+          setMode('recording');
+          startRecording();
+        } else {
+          setErrorMessage('Failed to start voice recognition. Please try again.');
+        }
       }
     }
   };
 
   const stopListening = () => {
-    if (recognitionRef.current && isListening) {
-      recognitionRef.current.stop();
+    if (!isListening) return;
+    if (mode === 'recording') {
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    } else {
+      recognitionRef.current?.stop();
     }
   };
 
@@ -190,7 +276,8 @@ export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: V
       <div className='relative'>
         <button
           onClick={isListening ? stopListening : startListening}
-          className='relative p-6 rounded-full transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-offset-2 shadow-xl'
+          disabled={isTranscribing}
+          className='relative p-6 rounded-full transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-offset-2 shadow-xl disabled:opacity-50 disabled:cursor-not-allowed'
           style={{
             backgroundColor: isListening ? 'var(--error)' : 'var(--primary)',
             color: 'white',
@@ -216,11 +303,19 @@ export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: V
       {/* Status Text */}
       <div className='text-center space-y-2'>
         <p className='text-lg font-semibold' style={{ color: isListening ? 'var(--error)' : 'var(--text-primary)' }}>
-          {isListening ? 'Listening...' : 'Tap to speak'}
+          {isTranscribing
+            ? 'Transcribing...'
+            : isListening
+              ? mode === 'recording'
+                ? 'Recording...'
+                : 'Listening...'
+              : 'Tap to speak'}
         </p>
         <p className='text-sm' style={{ color: 'var(--text-muted)' }}>
           {isListening
-            ? 'Speak clearly and I&apos;ll transcribe your words'
+            ? mode === 'recording'
+              ? 'Tap again when you are done speaking'
+              : 'Speak clearly and I&apos;ll transcribe your words'
             : 'Click the microphone and start speaking'}
         </p>
       </div>
@@ -241,7 +336,7 @@ export default function VoiceInput({ onTranscript, onVoiceStart, onVoiceEnd }: V
             </div>
             <div className='flex-1 min-w-0'>
               <p className='text-xs font-medium mb-1' style={{ color: 'var(--text-muted)' }}>
-                Live transcript
+                {mode === 'recording' ? 'Transcript' : 'Live transcript'}
               </p>
               <p className='text-sm leading-relaxed' style={{ color: 'var(--text-primary)' }}>
                 &quot;{transcript}&quot;
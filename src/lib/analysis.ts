@@ -0,0 +1,69 @@
+import { BoundingBox, ImageAnalysis } from '@/types/conversation';
+import { Part, z } from 'genkit';
+import { buildImageParts } from './chat';
+
+// Runtime schemas mirror the ImageAnalysis interfaces so the model output is constrained and validated
+const BoundingBoxSchema: z.ZodType<BoundingBox> = z.object({
+  x: z.number().min(0).max(1).describe('Left edge, as a fraction of image width'),
+  y: z.number().min(0).max(1).describe('Top edge, as a fraction of image height'),
+  width: z.number().min(0).max(1).describe('Box width, as a fraction of image width'),
+  height: z.number().min(0).max(1).describe('Box height, as a fraction of image height'),
+});
+
+export const ImageAnalysisSchema: z.ZodType<ImageAnalysis> = z.object({
+  summary: z.string().describe('One or two sentence description of the image set'),
+  objects: z.array(
+    z.object({
+      label: z.string(),
+      confidence: z.number().min(0).max(1),
+      imageIndex: z.number().int().min(0).describe('Zero-based index of the image the object appears in'),
+      boundingBox: BoundingBoxSchema,
+    }),
+  ),
+  textBlocks: z.array(
+    z.object({
+      text: z.string(),
+      imageIndex: z.number().int().min(0),
+      boundingBox: BoundingBoxSchema.optional(),
+    }),
+  ),
+  dominantColors: z.array(
+    z.object({
+      hex: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+      name: z.string(),
+      coverage: z.number().min(0).max(1).describe('Approximate fraction of the image covered by this color'),
+    }),
+  ),
+  sceneTags: z.array(z.string()),
+  safety: z.object({
+    containsPeople: z.boolean(),
+    containsFaces: z.boolean(),
+    containsPersonalInfo: z.boolean().describe('Readable names, addresses, card numbers or similar'),
+    adultContent: z.boolean(),
+    violence: z.boolean(),
+  }),
+});
+
+const ANALYSIS_PROMPT = `You are an image analysis tool that produces machine-readable results.
+
+Analyze the provided images and report:
+• Every distinct object you can see, with a tight bounding box
+• All readable text, grouped into blocks
+• Up to 5 dominant colors
+• Short lowercase scene tags (e.g. "indoor", "whiteboard", "conference")
+• Safety flags describing sensitive content
+
+Bounding box coordinates are fractions of the image size between 0 and 1, measured from the top-left corner. Use zero-based image indexes: "Image 1" is index 0.
+`;
+
+export function buildAnalysisPrompt(imageUrls: string[], focus?: string, language?: string): Part[] {
+  let textPrompt = ANALYSIS_PROMPT;
+  if (focus) {
+    textPrompt += `\nPay particular attention to: ${focus}\n`;
+  }
+  if (language) {
+    // OCR text stays as written; everything descriptive follows the conversation's language
+    textPrompt += `\nWrite the summary, labels and tags in ${language}. Keep OCR text in its original language.\n`;
+  }
+  return [{ text: textPrompt }, ...buildImageParts(imageUrls)];
+}
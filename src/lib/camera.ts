@@ -0,0 +1,95 @@
+// Camera constraints and capability helpers for PhotoCapture (browser only)
+
+export const CAMERA_STORAGE_KEY = 'lens-camera';
+
+export type FacingMode = 'environment' | 'user';
+
+export interface CameraResolution {
+  id: string;
+  label: string;
+  width?: number;
+  height?: number;
+}
+
+// Requested as "ideal" sizes, so cameras that can't match fall back to their closest mode
+export const CAMERA_RESOLUTIONS: CameraResolution[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+];
+
+export interface CameraPreferences {
+  deviceId?: string;
+  resolution: string;
+}
+
+export interface CameraOptions extends CameraPreferences {
+  facingMode: FacingMode;
+}
+
+// Torch and zoom aren't in TypeScript's DOM types yet; Chrome on Android exposes both
+export interface CameraCapabilities {
+  facingMode?: string[];
+  torch?: boolean;
+  zoom?: { min: number; max: number; step: number };
+}
+
+export function loadCameraPreferences(): CameraPreferences {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CAMERA_STORAGE_KEY) || 'null');
+    return {
+      deviceId: typeof saved?.deviceId === 'string' ? saved.deviceId : undefined,
+      resolution: CAMERA_RESOLUTIONS.some((option) => option.id === saved?.resolution) ? saved.resolution : 'auto',
+    };
+  } catch (error) {
+    console.error('Failed to restore camera preferences:', error);
+    return { resolution: 'auto' };
+  }
+}
+
+export function saveCameraPreferences(preferences: CameraPreferences) {
+  localStorage.setItem(CAMERA_STORAGE_KEY, JSON.stringify(preferences));
+}
+
+// A specific device wins over the facing mode; without one, mobile browsers pick the front or back camera
+export function buildVideoConstraints({ deviceId, facingMode, resolution }: CameraOptions): MediaTrackConstraints {
+  const size = CAMERA_RESOLUTIONS.find((option) => option.id === resolution);
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+    ...(size?.width && size.height ? { width: { ideal: size.width }, height: { ideal: size.height } } : {}),
+  };
+}
+
+export function getCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  // Firefox doesn't implement getCapabilities
+  if (typeof track.getCapabilities !== 'function') return {};
+  const capabilities = track.getCapabilities() as MediaTrackCapabilities & CameraCapabilities;
+  return {
+    facingMode: capabilities.facingMode,
+    torch: capabilities.torch,
+    zoom: capabilities.zoom?.max && capabilities.zoom.max > capabilities.zoom.min ? capabilities.zoom : undefined,
+  };
+}
+
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'videoinput');
+}
+
+// Turn getUserMedia failures into something the user can act on
+export function getCameraErrorMessage(error: unknown): string {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Camera access was denied. Allow camera access in your browser settings and try again, or upload an image instead.';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No camera was found on this device. You can upload an image instead.';
+    case 'NotReadableError':
+      return 'The camera is in use by another app. Close it and try again.';
+    default:
+      return 'The camera could not be started. You can upload an image instead.';
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { canRetry, getChatErrorMessage, shouldRetryAutomatically, toChatError } from './chat-errors';
+
+describe('toChatError', () => {
+  it('classifies errors by status', () => {
+    expect(toChatError({ status: 'DEADLINE_EXCEEDED' })).toEqual({ code: 'timeout' });
+    expect(toChatError({ status: 403 })).toEqual({ code: 'missing_api_key' });
+    expect(toChatError({ status: 'RESOURCE_EXHAUSTED' })).toEqual({ code: 'rate_limited', retryAfterMs: undefined });
+    expect(toChatError({ status: 'UNAVAILABLE' })).toEqual({ code: 'unavailable' });
+  });
+
+  it('falls back to the message text', () => {
+    expect(toChatError(new Error('Request timed out'))).toEqual({ code: 'timeout' });
+    expect(toChatError(new Error('API key not valid. Please pass a valid API key.'))).toEqual({
+      code: 'missing_api_key',
+    });
+    expect(toChatError(new Error('[503 Service Unavailable] The model is overloaded.'))).toEqual({
+      code: 'unavailable',
+    });
+    expect(toChatError(new TypeError('fetch failed'))).toEqual({ code: 'unavailable' });
+  });
+
+  it('reads how long a rate limit asks to wait', () => {
+    const error = {
+      status: 429,
+      errorDetails: [
+        { '@type': 'type.googleapis.com/google.rpc.QuotaFailure' },
+        { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '31.5s' },
+      ],
+    };
+    expect(toChatError(error)).toEqual({ code: 'rate_limited', retryAfterMs: 31_500 });
+  });
+
+  it('tells blocked questions from blocked answers', () => {
+    expect(toChatError(new Error('No valid candidates returned.'))).toEqual({
+      code: 'safety_blocked',
+      target: 'question',
+    });
+    expect(toChatError(new Error('Generation blocked due to SAFETY'))).toMatchObject({
+      code: 'safety_blocked',
+      target: 'answer',
+    });
+  });
+
+  it('keeps the safety ratings of a blocked answer', () => {
+    const error = {
+      message: 'FAILED_PRECONDITION: Generation blocked.',
+      detail: {
+        response: {
+          finishReason: 'blocked',
+          custom: {
+            candidates: [
+              {
+                safetyRatings: [
+                  { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true },
+                  { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE' },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    };
+    expect(toChatError(error)).toEqual({
+      code: 'safety_blocked',
+      target: 'answer',
+      safetyRatings: [
+        { category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true },
+        { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE' },
+      ],
+    });
+  });
+
+  it('only calls image errors invalid_image when the request was rejected', () => {
+    expect(toChatError({ status: 400, message: 'Unsupported MIME type: image/tiff' })).toEqual({
+      code: 'invalid_image',
+    });
+    expect(toChatError({ status: 400, message: 'Invalid JSON payload' })).toEqual({ code: 'unknown' });
+  });
+
+  it('treats anything else as unknown', () => {
+    expect(toChatError('something odd')).toEqual({ code: 'unknown' });
+    expect(toChatError(null)).toEqual({ code: 'unknown' });
+  });
+});
+
+describe('retry policy', () => {
+  it('retries transient failures automatically', () => {
+    expect(shouldRetryAutomatically({ code: 'rate_limited' })).toBe(true);
+    expect(shouldRetryAutomatically({ code: 'timeout' })).toBe(true);
+    expect(shouldRetryAutomatically({ code: 'unknown' })).toBe(false);
+  });
+
+  it('offers the retry button only when resending could help', () => {
+    expect(canRetry({ code: 'unknown' })).toBe(true);
+    expect(canRetry({ code: 'unavailable' })).toBe(true);
+    expect(canRetry({ code: 'safety_blocked', target: 'answer' })).toBe(false);
+    expect(canRetry({ code: 'not_found' })).toBe(false);
+  });
+});
+
+describe('getChatErrorMessage', () => {
+  it('names the categories behind a safety block', () => {
+    expect(
+      getChatErrorMessage({
+        code: 'safety_blocked',
+        target: 'answer',
+        safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }],
+      }),
+    ).toBe(
+      "Gemini's safety filters stopped this answer because it may contain dangerous content. Try rephrasing the question or using a different image.",
+    );
+    expect(getChatErrorMessage({ code: 'safety_blocked', target: 'question' })).toBe(
+      "Gemini's safety filters blocked this question. Try rephrasing it or using a different image.",
+    );
+  });
+
+  it('uses the fixed message for other codes', () => {
+    expect(getChatErrorMessage({ code: 'timeout' })).toBe('Gemini took too long to answer. Please try again.');
+  });
+});
@@ -0,0 +1,119 @@
+import { ChatError, ChatErrorCode } from '@/types/conversation';
+import { describeSafetyBlock, getSafetyInfo } from './safety';
+
+// How each failure is explained, and how it can be retried: automatically on the server for
+// transient failures, or by the user with the retry button. Client-safe, so the page uses the same text
+const CHAT_ERRORS: Record<ChatErrorCode, { message: string; retry: 'auto' | 'manual' | 'never' }> = {
+  rate_limited: {
+    message: 'Gemini is getting too many requests right now. Please wait a moment and try again.',
+    retry: 'auto',
+  },
+  timeout: { message: 'Gemini took too long to answer. Please try again.', retry: 'auto' },
+  unavailable: { message: 'Gemini could not be reached. Check your connection and try again.', retry: 'auto' },
+  safety_blocked: {
+    message: "Gemini's safety filters blocked this answer. Try rephrasing the question or using a different image.",
+    retry: 'never',
+  },
+  invalid_image: {
+    message: 'Gemini could not read one of the images. Remove it or upload it again in another format.',
+    retry: 'never',
+  },
+  missing_api_key: {
+    message: 'The server has no valid Gemini API key. Set GEMINI_API_KEY and restart the server.',
+    retry: 'never',
+  },
+  invalid_request: { message: 'The request could not be processed.', retry: 'never' },
+  not_found: { message: 'This conversation could not be found. Please start a new one.', retry: 'never' },
+  unknown: { message: 'Something went wrong while answering. Please try again.', retry: 'manual' },
+};
+
+export function getChatErrorMessage(error: ChatError): string {
+  if (error.code === 'safety_blocked') {
+    return describeSafetyBlock(error.target, error.safetyRatings);
+  }
+  return CHAT_ERRORS[error.code].message;
+}
+
+export function shouldRetryAutomatically(error: ChatError): boolean {
+  return CHAT_ERRORS[error.code].retry === 'auto';
+}
+
+// Whether sending the same request again could help, which is when the retry button is offered
+export function canRetry(error: ChatError): boolean {
+  return CHAT_ERRORS[error.code].retry !== 'never';
+}
+
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  // A status name on Genkit errors, an HTTP status on Gemini API errors
+  status?: string | number;
+  errorDetails?: { '@type'?: string; retryDelay?: string }[];
+  // Genkit's blocked-generation error carries the response, with its safety ratings
+  detail?: { response?: { finishReason?: string; custom?: unknown } };
+}
+
+// Classify a failed Gemini call. Errors arrive from Genkit, the Gemini SDK or the network,
+// so the status is checked first and the message text as a fallback
+export function toChatError(error: unknown): ChatError {
+  const details = (typeof error === 'object' && error !== null ? error : {}) as ErrorLike;
+  const { name = '', status } = details;
+  const message = details.message ?? String(error);
+
+  if (
+    name === 'TimeoutError' ||
+    status === 'DEADLINE_EXCEEDED' ||
+    status === 504 ||
+    /\[504|deadline exceeded|timed out|ETIMEDOUT/i.test(message)
+  ) {
+    return { code: 'timeout' };
+  }
+  if (
+    status === 'UNAUTHENTICATED' ||
+    status === 'PERMISSION_DENIED' ||
+    status === 401 ||
+    status === 403 ||
+    /API key/i.test(message)
+  ) {
+    return { code: 'missing_api_key' };
+  }
+  if (
+    status === 'RESOURCE_EXHAUSTED' ||
+    status === 429 ||
+    /\[429|quota|rate limit|resource has been exhausted/i.test(message)
+  ) {
+    return { code: 'rate_limited', retryAfterMs: getRetryAfterMs(details.errorDetails) };
+  }
+  // A blocked prompt leaves Gemini with no candidates to return
+  if (/no valid candidates|response was blocked/i.test(message)) {
+    return { code: 'safety_blocked', target: 'question' };
+  }
+  const blocked = details.detail?.response;
+  if (
+    blocked?.finishReason === 'blocked' ||
+    /Generation blocked|blocked due to|SAFETY|PROHIBITED_CONTENT/.test(message)
+  ) {
+    return { code: 'safety_blocked', target: 'answer', safetyRatings: blocked && getSafetyInfo(blocked).safetyRatings };
+  }
+  if ((status === 'INVALID_ARGUMENT' || status === 400 || /\[400/.test(message)) && /image|mime/i.test(message)) {
+    return { code: 'invalid_image' };
+  }
+  if (
+    status === 'UNAVAILABLE' ||
+    status === 'INTERNAL' ||
+    status === 500 ||
+    status === 502 ||
+    status === 503 ||
+    /\[50[023]|overloaded|fetch failed|ECONNRESET|ENOTFOUND|network/i.test(message)
+  ) {
+    return { code: 'unavailable' };
+  }
+  return { code: 'unknown' };
+}
+
+// Rate limit errors from the Gemini API may say how long to wait, e.g. retryDelay: "31s"
+function getRetryAfterMs(errorDetails: ErrorLike['errorDetails']): number | undefined {
+  const retryDelay = errorDetails?.find((detail) => detail['@type']?.endsWith('RetryInfo'))?.retryDelay;
+  const seconds = parseFloat(retryDelay ?? '');
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+}
@@ -0,0 +1,41 @@
+import { ChatStreamEvent, Message } from '@/types/conversation';
+
+// The chat stream is newline-delimited JSON, so the route can report how a reply ended after its text.
+// Client-safe: the route writes events with encodeChatStreamEvent and the page reads them back
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+// Yield events as they arrive; a line split across chunks is held back until it is complete
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffered.split('\n');
+    buffered = done ? '' : (lines.pop() ?? '');
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as ChatStreamEvent;
+    }
+    if (done) return;
+  }
+}
+
+// What a streamed reply is stored with, given its last event; without one the request was cancelled
+export function getReplyEnding(
+  ending: ChatStreamEvent | null | undefined,
+): Pick<Message, 'status' | 'finishReason' | 'safetyRatings'> {
+  if (ending?.type === 'done') {
+    return { status: undefined, finishReason: ending.finishReason, safetyRatings: ending.safetyRatings };
+  }
+  // A reply the safety filters stopped partway keeps the ratings that stopped it
+  if (ending?.type === 'error' && ending.error.code === 'safety_blocked') {
+    return { status: 'interrupted', finishReason: 'blocked', safetyRatings: ending.error.safetyRatings };
+  }
+  return { status: 'interrupted' };
+}
@@ -0,0 +1,244 @@
+import {
+  ChatHistoryEntry,
+  ChatSession,
+  GenerationSettings,
+  ImageHighlight,
+  Message,
+  SafetySetting,
+  SafetyThreshold,
+} from '@/types/conversation';
+import { MessageData, Part } from 'genkit';
+import { ai } from './genkit';
+import { DEFAULT_MAX_IMAGES } from './image-events';
+import { inlineStoredImages, isAcceptedImageUrl } from './images';
+import { AUTO_LANGUAGE, getLanguage } from './languages';
+import { RESPONSE_LENGTH_PRESETS } from './models';
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from './safety';
+
+// Model and config for a generate call, shared by the server action and the streaming route
+export function toGenerateOptions(settings: GenerationSettings) {
+  return {
+    model: settings.model,
+    config: {
+      temperature: settings.temperature,
+      maxOutputTokens: settings.maxOutputTokens,
+      safetySettings: getSafetySettings(),
+    },
+  };
+}
+
+// Per-category block thresholds from SAFETY_<CATEGORY> env vars, e.g. SAFETY_HARASSMENT=BLOCK_ONLY_HIGH.
+// Categories without one keep Gemini's default; undefined when none are set
+export function getSafetySettings(): SafetySetting[] | undefined {
+  const settings = SAFETY_CATEGORIES.flatMap((category): SafetySetting[] => {
+    const name = `SAFETY_${category.replace('HARM_CATEGORY_', '')}`;
+    const threshold = process.env[name];
+    if (!threshold) return [];
+    if (!SAFETY_THRESHOLDS.includes(threshold as SafetyThreshold)) {
+      console.warn(`Ignoring ${name}="${threshold}"; expected one of ${SAFETY_THRESHOLDS.join(', ')}`);
+      return [];
+    }
+    return [{ category, threshold: threshold as SafetyThreshold }];
+  });
+  return settings.length > 0 ? settings : undefined;
+}
+
+// Rough sizes used to fit the history into the request; Gemini counts about 4 characters per
+// token and a few hundred tokens per image
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+
+// How much of the past conversation to resend with each turn
+export const HISTORY_TOKEN_BUDGET = 8000;
+
+// Full generate request: the persona's dotprompt supplies the system message and output format,
+// followed by the past turns as user/model messages and the new question as the prompt
+export async function buildChatRequest(
+  message: string,
+  imageUrls: string[],
+  settings: GenerationSettings,
+  personaId: string,
+  conversationHistory: ChatHistoryEntry[] = [],
+  languageCode: string = AUTO_LANGUAGE,
+  highlights: ImageHighlight[] = [],
+) {
+  const wordLimit = RESPONSE_LENGTH_PRESETS[settings.responseLength].words;
+  const { messages: systemMessages, output } = await ai
+    .prompt(personaId)
+    .render({ wordLimit, language: getLanguage(languageCode)?.name });
+
+  const history = trimHistory(conversationHistory, HISTORY_TOKEN_BUDGET);
+  const { messages, attachedImages } = buildHistoryMessages(history);
+  const newImages = imageUrls.filter((url) => !attachedImages.has(url));
+
+  return {
+    messages: [
+      ...(systemMessages ?? []),
+      ...(await Promise.all(messages.map(async (msg) => ({ ...msg, content: await inlineStoredImages(msg.content) })))),
+    ],
+    output,
+    prompt: await inlineStoredImages(buildChatPrompt(message, imageUrls, newImages, settings, highlights)),
+    ...toGenerateOptions(settings),
+  };
+}
+
+export const NO_IMAGE_MESSAGE =
+  'Please upload or capture an image first so I can analyze it for you. I need to see the image to provide accurate analysis and answer your questions.';
+
+// Drop empty entries so callers can pass the gallery straight through. Anything that isn't a stored
+// image (or a legacy data URL already in the session) is ignored rather than handed to the model
+export function getImageUrls(images: string[] | undefined, session: ChatSession): string[] {
+  return (images ?? []).filter((url) => typeof url === 'string' && isAcceptedImageUrl(url, session));
+}
+
+// Images one conversation can use at once. MAX_SESSION_IMAGES raises or lowers the limit
+export function getMaxImages(): number {
+  const limit = Number(process.env.MAX_SESSION_IMAGES);
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_MAX_IMAGES;
+}
+
+export function getTooManyImagesMessage(): string {
+  return `Up to ${getMaxImages()} images can be used in one conversation. Remove an image and try again.`;
+}
+
+// Upper bound on marked areas per request; more than this is noise for the model
+export const MAX_HIGHLIGHTS = 10;
+
+// Keep only well-formed highlights that point at one of the sent images, clamped to the image bounds
+export function getHighlights(highlights: unknown, imageCount: number): ImageHighlight[] {
+  if (!Array.isArray(highlights)) return [];
+  const isUnit = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+  return highlights
+    .filter(
+      (highlight): highlight is ImageHighlight =>
+        Number.isInteger(highlight?.imageIndex) &&
+        highlight.imageIndex >= 0 &&
+        highlight.imageIndex < imageCount &&
+        isUnit(highlight.boundingBox?.x) &&
+        isUnit(highlight.boundingBox?.y) &&
+        isUnit(highlight.boundingBox?.width) &&
+        isUnit(highlight.boundingBox?.height),
+    )
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(({ imageIndex, boundingBox: { x, y, width, height } }) => ({
+      imageIndex,
+      boundingBox: { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) },
+    }));
+}
+
+// Keep the most recent entries that fit in the token budget. The kept history always starts on a
+// user turn so the model never sees a reply without its question
+export function trimHistory(history: ChatHistoryEntry[], tokenBudget: number): ChatHistoryEntry[] {
+  let remaining = tokenBudget;
+  let start = history.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(history[start - 1]);
+    if (cost > remaining) break;
+    remaining -= cost;
+    start--;
+  }
+
+  while (start < history.length && history[start].role !== 'user') {
+    start++;
+  }
+
+  return history.slice(start);
+}
+
+function estimateTokens(entry: ChatHistoryEntry): number {
+  return Math.ceil(entry.content.length / CHARS_PER_TOKEN) + (entry.imageUrls?.length ?? 0) * TOKENS_PER_IMAGE;
+}
+
+// Turn stored history into Genkit messages. Each image is attached once, on the earliest kept
+// turn that used it, so follow-up questions don't resend the same pixels
+export function buildHistoryMessages(history: ChatHistoryEntry[]): {
+  messages: MessageData[];
+  attachedImages: Set<string>;
+} {
+  const attachedImages = new Set<string>();
+
+  const messages = history.map((entry): MessageData => {
+    if (entry.role === 'assistant') {
+      return { role: 'model', content: [{ text: entry.content }] };
+    }
+
+    const newImages = (entry.imageUrls ?? []).filter((url) => !attachedImages.has(url));
+    newImages.forEach((url) => attachedImages.add(url));
+
+    return {
+      role: 'user',
+      content: [{ text: entry.content }, ...buildImageParts(newImages, entry.imageUrls)],
+    };
+  });
+
+  return { messages, attachedImages };
+}
+
+// Build the new user turn: the question, then any images the model hasn't been shown yet
+export function buildChatPrompt(
+  message: string,
+  imageUrls: string[],
+  newImages: string[],
+  settings: GenerationSettings,
+  highlights: ImageHighlight[] = [],
+): Part[] {
+  const wordLimit = RESPONSE_LENGTH_PRESETS[settings.responseLength].words;
+
+  let textPrompt = '';
+
+  // Tell the model how the images are labelled so the user can refer to them by number
+  if (imageUrls.length > 1) {
+    textPrompt += `The user has provided ${imageUrls.length} images, labelled "Image 1" to "Image ${imageUrls.length}". Refer to them by these labels when comparing or describing them.\n\n`;
+  }
+
+  // The marks are drawn into the pixels as well; the coordinates help when they are small or faint
+  if (highlights.length > 0) {
+    const areas = highlights.map(({ imageIndex, boundingBox: box }) => {
+      const percent = (value: number) => Math.round(value * 100);
+      return `- Image ${imageIndex + 1}: ${percent(box.x)}-${percent(box.x + box.width)}% from the left, ${percent(box.y)}-${percent(box.y + box.height)}% from the top`;
+    });
+    textPrompt += `The user marked these areas (drawn on the image):\n${areas.join('\n')}\nFocus your answer on the marked areas.\n\n`;
+  }
+
+  // Add the user's question
+  textPrompt += `User Request: ${message}\n\nPlease analyze the provided ${
+    imageUrls.length > 1 ? 'images' : 'image'
+  } and respond to the user's specific question. Keep your response focused and under ${wordLimit} words.`;
+
+  return [{ text: textPrompt }, ...buildImageParts(newImages, imageUrls)];
+}
+
+// One labelled media part per image, so the model and the user share the "Image N" numbering.
+// Numbers follow each image's position in the gallery it was sent with
+export function buildImageParts(imageUrls: string[], gallery: string[] = imageUrls): Part[] {
+  return imageUrls.flatMap((imageUrl) => [
+    { text: `Image ${gallery.indexOf(imageUrl) + 1}:` },
+    {
+      media: {
+        url: imageUrl,
+        contentType: getMimeType(imageUrl),
+      },
+    },
+  ]);
+}
+
+// Reduce stored messages to what the prompt needs, skipping turns that produced no text and image change
+// entries; each question already carries the image set it was asked about
+export function toChatHistory(messages: Message[]): ChatHistoryEntry[] {
+  return messages
+    .filter((msg): msg is Message & { role: ChatHistoryEntry['role'] } => msg.role !== 'system')
+    .filter((msg) => msg.content.trim() !== '')
+    .map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+      imageUrls: msg.imageUrls ?? (msg.imageUrl ? [msg.imageUrl] : undefined),
+    }));
+}
+
+// Extract the mime type from a data URL
+export function getMimeType(imageUrl: string): string {
+  const [mimeTypePart] = imageUrl.split(',');
+  return mimeTypePart.match(/data:([^;]+)/)?.[1] || 'image/jpeg';
+}
@@ -0,0 +1,215 @@
+// Continuous microphone listener for hands-free conversation mode (browser only)
+
+// Pause after the last recognized words before the question counts as finished
+const END_OF_SPEECH_MS = 1200;
+
+// Recording fallback: input level that counts as speech, checked every LEVEL_INTERVAL_MS
+const SPEECH_LEVEL = 0.02;
+const LEVEL_INTERVAL_MS = 100;
+const MIN_UTTERANCE_MS = 400;
+const MAX_UTTERANCE_MS = 60_000;
+
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface ListenerCallbacks {
+  // Called as soon as the user starts talking, with the words so far when the browser provides them
+  onSpeech: (interimText: string) => void;
+  // Called once per finished utterance
+  onUtterance: (text: string, language?: string) => void;
+  onError: (message: string) => void;
+}
+
+export type Transcriber = (audio: Blob) => Promise<{ text?: string; language?: string }>;
+
+export interface ConversationListener {
+  start(): Promise<void>;
+  stop(): void;
+}
+
+// Prefer the browser's recognizer; fall back to recording utterances and transcribing them on the server
+export function createConversationListener(
+  callbacks: ListenerCallbacks,
+  transcribe: Transcriber,
+  lang: string,
+): ConversationListener | null {
+  if (typeof window === 'undefined') return null;
+  if (window.SpeechRecognition || window.webkitSpeechRecognition) {
+    return new SpeechListener(callbacks, lang);
+  }
+  if ('MediaRecorder' in window && navigator.mediaDevices) {
+    return new RecordingListener(callbacks, transcribe);
+  }
+  return null;
+}
+
+class SpeechListener implements ConversationListener {
+  private recognition: InstanceType<typeof window.SpeechRecognition> | null = null;
+  private active = false;
+  private finalText = '';
+  private endTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private callbacks: ListenerCallbacks,
+    private lang: string,
+  ) {}
+
+  async start() {
+    if (this.active) return;
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = this.lang;
+
+    recognition.onresult = (event) => {
+      let interimText = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (event.results[i].isFinal) {
+          this.finalText += event.results[i][0].transcript;
+        } else {
+          interimText += event.results[i][0].transcript;
+        }
+      }
+      this.callbacks.onSpeech(`${this.finalText} ${interimText}`.trim());
+
+      // Users pause mid-sentence, so wait for a quiet spell before treating the question as complete
+      if (this.endTimer) clearTimeout(this.endTimer);
+      this.endTimer = setTimeout(() => this.flush(), END_OF_SPEECH_MS);
+    };
+
+    recognition.onerror = (event) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        this.stop();
+        this.callbacks.onError('Microphone access denied. Please allow microphone access to use conversation mode.');
+      } else if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        console.error('Speech recognition error:', event.error);
+      }
+    };
+
+    // Browsers end recognition after a stretch of silence; keep listening until stopped
+    recognition.onend = () => {
+      if (!this.active) return;
+      try {
+        recognition.start();
+      } catch (error) {
+        console.error('Failed to restart speech recognition:', error);
+      }
+    };
+
+    this.recognition = recognition;
+    this.active = true;
+    recognition.start();
+  }
+
+  stop() {
+    this.active = false;
+    if (this.endTimer) clearTimeout(this.endTimer);
+    this.endTimer = null;
+    this.finalText = '';
+    this.recognition?.stop();
+    this.recognition = null;
+  }
+
+  private flush() {
+    const text = this.finalText.trim();
+    this.finalText = '';
+    if (text) this.callbacks.onUtterance(text);
+  }
+}
+
+// Voice activity detection on the raw input level: record while the user talks, transcribe after they stop
+class RecordingListener implements ConversationListener {
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private recorder: MediaRecorder | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private startedAt = 0;
+  private lastVoiceAt = 0;
+
+  constructor(
+    private callbacks: ListenerCallbacks,
+    private transcribe: Transcriber,
+  ) {}
+
+  async start() {
+    if (this.stream) return;
+    try {
+      // Echo cancellation keeps the spoken answer from triggering the detector
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      console.error('Failed to access microphone:', error);
+      this.callbacks.onError('Microphone access denied. Please allow microphone access to use conversation mode.');
+      return;
+    }
+
+    this.context = new AudioContext();
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 2048;
+    this.context.createMediaStreamSource(this.stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    this.interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const level = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      const now = Date.now();
+
+      if (level > SPEECH_LEVEL) {
+        this.lastVoiceAt = now;
+        if (!this.recorder) this.startRecording();
+      } else if (this.recorder && now - this.lastVoiceAt > END_OF_SPEECH_MS) {
+        this.finishRecording();
+      }
+      if (this.recorder && now - this.startedAt > MAX_UTTERANCE_MS) {
+        this.finishRecording();
+      }
+    }, LEVEL_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    if (this.recorder) {
+      this.recorder.onstop = null;
+      if (this.recorder.state === 'recording') this.recorder.stop();
+      this.recorder = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.context?.close();
+    this.context = null;
+  }
+
+  private startRecording() {
+    if (!this.stream) return;
+    const mimeType = RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      // Clicks and short noises aren't worth a transcription request
+      if (this.lastVoiceAt - this.startedAt < MIN_UTTERANCE_MS) return;
+      this.transcribe(new Blob(chunks, { type: recorder.mimeType }))
+        .then(({ text, language }) => {
+          if (text?.trim()) this.callbacks.onUtterance(text.trim(), language);
+        })
+        .catch((error) => {
+          console.error('Error transcribing utterance:', error);
+          this.callbacks.onError('Failed to transcribe audio. Please try again.');
+        });
+    };
+
+    recorder.start();
+    this.recorder = recorder;
+    this.startedAt = Date.now();
+    this.callbacks.onSpeech('');
+  }
+
+  private finishRecording() {
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+    this.recorder = null;
+  }
+}
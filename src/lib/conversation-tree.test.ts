@@ -0,0 +1,78 @@
+import { Message } from '@/types/conversation';
+import { describe, expect, it } from 'vitest';
+import { getBranch, getChildren, getLatestLeaf, getSiblings, linkMessages } from './conversation-tree';
+
+function message(id: string, parentId: string | null | undefined, role: Message['role'] = 'user'): Message {
+  return { id, parentId, role, content: id, timestamp: new Date(0) };
+}
+
+// q1 ─ a1 ─ q2 ─ a2
+//   └─ a1b        └─ a2b
+// q1b (an edit of q1)
+const tree = [
+  message('q1', null),
+  message('a1', 'q1', 'assistant'),
+  message('q2', 'a1'),
+  message('a2', 'q2', 'assistant'),
+  message('a1b', 'q1', 'assistant'),
+  message('a2b', 'q2', 'assistant'),
+  message('q1b', null),
+];
+
+const ids = (messages: Message[]) => messages.map((msg) => msg.id);
+
+describe('getBranch', () => {
+  it('returns the path from the first question to the leaf', () => {
+    expect(ids(getBranch(tree, 'a2b'))).toEqual(['q1', 'a1', 'q2', 'a2b']);
+    expect(ids(getBranch(tree, 'a1b'))).toEqual(['q1', 'a1b']);
+  });
+
+  it('is empty without a known leaf', () => {
+    expect(getBranch(tree, null)).toEqual([]);
+    expect(getBranch(tree, 'missing')).toEqual([]);
+  });
+
+  it('stops at a parent cycle', () => {
+    const cycle = [message('x', 'y'), message('y', 'x')];
+    expect(getBranch(cycle, 'x').length).toBeLessThanOrEqual(cycle.length);
+  });
+});
+
+describe('getChildren and getSiblings', () => {
+  it('lists replies in the order they were added', () => {
+    expect(ids(getChildren(tree, 'q1'))).toEqual(['a1', 'a1b']);
+    expect(ids(getChildren(tree, null))).toEqual(['q1', 'q1b']);
+  });
+
+  it('includes the message itself among its alternatives', () => {
+    expect(ids(getSiblings(tree, tree[3]))).toEqual(['a2', 'a2b']);
+  });
+});
+
+describe('getLatestLeaf', () => {
+  it('follows the newest reply down to the end of the branch', () => {
+    expect(getLatestLeaf(tree, 'q1')).toBe('a1b');
+    expect(getLatestLeaf(tree, 'a1')).toBe('a2b');
+    expect(getLatestLeaf(tree, 'q1b')).toBe('q1b');
+  });
+
+  it('stops at a parent cycle', () => {
+    const cycle = [message('x', 'y'), message('y', 'x')];
+    expect(['x', 'y']).toContain(getLatestLeaf(cycle, 'x'));
+  });
+});
+
+describe('linkMessages', () => {
+  it('links a flat list from before branching into one branch', () => {
+    const linked = linkMessages([
+      message('q1', undefined),
+      message('a1', undefined, 'assistant'),
+      message('q2', undefined),
+    ]);
+    expect(linked.map((msg) => msg.parentId)).toEqual([null, 'q1', 'a1']);
+  });
+
+  it('leaves messages that already have a parent alone', () => {
+    expect(linkMessages(tree)).toEqual(tree);
+  });
+});
@@ -0,0 +1,49 @@
+import { Message } from '@/types/conversation';
+
+// Helpers for the conversation tree (see ConversationTree). Client-safe, so the page and the server
+// walk branches the same way
+
+// The path from the first question down to leafId, oldest first
+export function getBranch(messages: Message[], leafId: string | null | undefined): Message[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: Message[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  // The length check stops a malformed import with a parent cycle from looping forever
+  while (current && branch.length < messages.length) {
+    branch.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+}
+
+// Replies to a message in the order they were added; null gives the first questions
+export function getChildren(messages: Message[], parentId: string | null): Message[] {
+  return messages.filter((message) => (message.parentId ?? null) === parentId);
+}
+
+// A message and its alternatives: other edits of the same question, or other answers to it
+export function getSiblings(messages: Message[], message: Message): Message[] {
+  return getChildren(messages, message.parentId ?? null);
+}
+
+// Where switching to a message lands: follow its newest reply down to the end of the branch
+export function getLatestLeaf(messages: Message[], messageId: string): string {
+  let leafId = messageId;
+  // Stop at a message already visited, so a malformed import with a parent cycle can't loop forever
+  const visited = new Set([leafId]);
+  let children = getChildren(messages, leafId);
+  while (children.length > 0 && !visited.has(children[children.length - 1].id)) {
+    leafId = children[children.length - 1].id;
+    visited.add(leafId);
+    children = getChildren(messages, leafId);
+  }
+  return leafId;
+}
+
+// Sessions saved before branching were a flat list; link each message to the one before it
+export function linkMessages(messages: Message[]): Message[] {
+  return messages.map((message, index) =>
+    message.parentId !== undefined ? message : { ...message, parentId: index > 0 ? messages[index - 1].id : null },
+  );
+}
@@ -0,0 +1,283 @@
+import { ChatSession, ConversationExport, ExportFormat, Message } from '@/types/conversation';
+import JSZip from 'jszip';
+import { getBranch } from './conversation-tree';
+import { getModelOption } from './models';
+import { getPersona } from './personas';
+
+// Serialize a session to the lossless JSON format that importChatSession reads back
+export function toConversationJson(session: ChatSession): string {
+  const data: ConversationExport = {
+    format: 'lens-conversation',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// Check the shape of an exported file and return its session. Throws with a readable message
+export function parseConversationJson(json: string): ChatSession {
+  let data: Partial<ConversationExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (data?.format !== 'lens-conversation') {
+    throw new Error('File is not a Lens conversation export');
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported export version ${data.version}`);
+  }
+
+  const session = data.session;
+  if (!session || !Array.isArray(session.messages) || !Array.isArray(session.images)) {
+    throw new Error('Export is missing its messages or images');
+  }
+
+  for (const message of session.messages) {
+    if (
+      typeof message?.id !== 'string' ||
+      !['user', 'assistant', 'system'].includes(message.role) ||
+      typeof message.content !== 'string' ||
+      (message.parentId != null && typeof message.parentId !== 'string') ||
+      Number.isNaN(new Date(message.timestamp).getTime())
+    ) {
+      throw new Error('Export contains an invalid message');
+    }
+  }
+
+  return session;
+}
+
+// Markdown transcript. Images are inlined as data URLs unless a path is given for them,
+// which is how the zip export points at its sidecar files
+export function toMarkdown(session: ChatSession, imagePaths: Map<string, string> = new Map()): string {
+  const lines = [`# ${getExportTitle(session)}`, '', `Exported ${formatTimestamp(new Date())}`, ''];
+
+  const persona = getPersona(session.personaId);
+  if (persona) {
+    lines.push(`Persona: ${persona.label}`, '');
+  }
+
+  // Transcripts show the branch that was on screen; the JSON export keeps every alternative
+  for (const message of getBranch(session.messages, session.activeLeafId)) {
+    if (message.role === 'system') {
+      lines.push(`_${message.content}_`, '');
+      continue;
+    }
+    lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'} · ${formatTimestamp(message.timestamp)}`, '');
+
+    const details = getMessageDetails(message);
+    if (details) {
+      lines.push(`_${details}_`, '');
+    }
+
+    getMessageImages(message).forEach((imageUrl, index) => {
+      lines.push(`![Image ${index + 1}](${imagePaths.get(imageUrl) ?? imageUrl})`);
+    });
+    if (getMessageImages(message).length > 0) {
+      lines.push('');
+    }
+
+    lines.push(message.content, '');
+
+    if (message.analysis) {
+      lines.push('```json', JSON.stringify(message.analysis, null, 2), '```', '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Markdown with the images written out as files next to it
+export async function toMarkdownZip(session: ChatSession): Promise<Blob> {
+  const zip = new JSZip();
+  const imagePaths = new Map<string, string>();
+
+  for (const imageUrl of getSessionImages(session)) {
+    // Only data URLs can be written out; anything else stays a link
+    const [, mimeType, base64] = imageUrl.match(/^data:([^;]+);base64,(.*)$/) ?? [];
+    if (!base64) continue;
+
+    const imagePath = `images/image-${imagePaths.size + 1}.${mimeType.split('/')[1] || 'jpg'}`;
+    zip.file(imagePath, base64, { base64: true });
+    imagePaths.set(imageUrl, imagePath);
+  }
+
+  zip.file('conversation.md', toMarkdown(session, imagePaths));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+// Self-contained HTML report laid out for printing; the browser's print dialog saves it as PDF
+export function toHtmlReport(session: ChatSession): string {
+  const title = escapeHtml(getExportTitle(session));
+
+  const messages = getBranch(session.messages, session.activeLeafId)
+    .map((message) => {
+      if (message.role === 'system') {
+        return `
+      <p class="event">${escapeHtml(message.content)}</p>`;
+      }
+
+      const details = getMessageDetails(message);
+      const images = getMessageImages(message)
+        .map((imageUrl, index) => `<img src="${escapeHtml(imageUrl)}" alt="Image ${index + 1}" />`)
+        .join('');
+
+      return `
+      <section class="message ${message.role}">
+        <header>
+          <strong>${message.role === 'user' ? 'You' : 'Assistant'}</strong>
+          <span>${escapeHtml(formatTimestamp(message.timestamp))}${details ? ` · ${escapeHtml(details)}` : ''}</span>
+        </header>
+        ${images ? `<div class="images">${images}</div>` : ''}
+        <p>${escapeHtml(message.content)}</p>
+        ${message.analysis ? `<pre>${escapeHtml(JSON.stringify(message.analysis, null, 2))}</pre>` : ''}
+      </section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 760px; margin: 2rem auto; padding: 0 1rem; }
+    h1 { margin-bottom: 0.25rem; }
+    .meta { color: #64748b; font-size: 0.875rem; margin-bottom: 2rem; }
+    .message { border: 1px solid #e2e8f0; border-radius: 12px; padding: 1rem; margin-bottom: 1rem; break-inside: avoid; }
+    .message.user { background: #f8fafc; }
+    .event { color: #64748b; font-size: 0.875rem; font-style: italic; text-align: center; margin: 0 0 1rem; }
+    .message header { display: flex; justify-content: space-between; gap: 1rem; font-size: 0.875rem; margin-bottom: 0.5rem; }
+    .message header span { color: #64748b; }
+    .message p { white-space: pre-wrap; line-height: 1.6; margin: 0; }
+    .images { display: flex; gap: 0.5rem; margin-bottom: 0.75rem; }
+    .images img { max-width: 160px; max-height: 160px; border-radius: 8px; object-fit: cover; }
+    pre { font-size: 0.75rem; background: #f1f5f9; padding: 0.75rem; border-radius: 8px; overflow-x: auto; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <div class="meta">Exported ${escapeHtml(formatTimestamp(new Date()))}</div>
+  ${messages}
+  <script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>`;
+}
+
+// Run an export in the browser: download the file, or open the report for printing
+export async function exportConversation(storedSession: ChatSession, format: ExportFormat) {
+  const session = await embedImages(storedSession);
+  const baseName = `lens-${session.id.slice(0, 8)}`;
+
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([toMarkdown(session)], { type: 'text/markdown' }), `${baseName}.md`);
+      break;
+    case 'markdown-zip':
+      downloadBlob(await toMarkdownZip(session), `${baseName}.zip`);
+      break;
+    case 'json':
+      downloadBlob(new Blob([toConversationJson(session)], { type: 'application/json' }), `${baseName}.json`);
+      break;
+    case 'print': {
+      const url = URL.createObjectURL(new Blob([toHtmlReport(session)], { type: 'text/html' }));
+      window.open(url, '_blank');
+      // Give the new tab time to load before releasing the URL
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+      break;
+    }
+  }
+}
+
+// Stored images are served by URL; fetch them so every export works outside the app
+async function embedImages(session: ChatSession): Promise<ChatSession> {
+  const dataUrls = new Map<string, string>();
+  await Promise.all(
+    getSessionImages(session)
+      .filter((imageUrl) => !imageUrl.startsWith('data:'))
+      .map(async (imageUrl) => {
+        const response = await fetch(imageUrl);
+        if (response.ok) {
+          dataUrls.set(imageUrl, await blobToDataUrl(await response.blob()));
+        }
+      }),
+  );
+
+  const embed = (imageUrl: string) => dataUrls.get(imageUrl) ?? imageUrl;
+  return {
+    ...session,
+    images: session.images.map(embed),
+    messages: session.messages.map((message) => ({
+      ...message,
+      imageUrl: message.imageUrl && embed(message.imageUrl),
+      imageUrls: message.imageUrls?.map(embed),
+    })),
+  };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function getExportTitle(session: ChatSession): string {
+  return session.title || session.messages.find((message) => message.role === 'user')?.content || 'Lens conversation';
+}
+
+// Model and persona that produced an assistant message
+function getMessageDetails(message: Message): string {
+  const details: string[] = [];
+  if (message.settings) {
+    details.push(`Model: ${getModelOption(message.settings.model)?.label ?? message.settings.model}`);
+  }
+  if (message.personaId) {
+    details.push(`Persona: ${getPersona(message.personaId)?.label ?? message.personaId}`);
+  }
+  if (message.finishReason === 'blocked') {
+    details.push('Stopped by safety filters');
+  } else if (message.status === 'interrupted') {
+    details.push('Interrupted');
+  }
+  if (message.finishReason === 'length') {
+    details.push('Cut off at the length limit');
+  }
+  return details.join(' · ');
+}
+
+function getMessageImages(message: Message): string[] {
+  return message.imageUrls ?? (message.imageUrl ? [message.imageUrl] : []);
+}
+
+function getSessionImages(session: ChatSession): string[] {
+  return [...new Set([...session.images, ...session.messages.flatMap(getMessageImages)])];
+}
+
+function formatTimestamp(timestamp: Date | string): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,57 @@
+// Live lens frame sampling and change detection (browser only)
+
+export const LIVE_INTERVALS = [
+  { ms: 2000, label: 'Every 2 s' },
+  { ms: 5000, label: 'Every 5 s' },
+  { ms: 10000, label: 'Every 10 s' },
+  { ms: 30000, label: 'Every 30 s' },
+];
+export const DEFAULT_LIVE_INTERVAL_MS = 5000;
+
+// Share of the frame that must differ from the last sent frame for a new one to be sent
+export const CHANGE_THRESHOLD = 0.05;
+
+// Frames are sent small; the preview is enough for captions and keeps requests cheap
+const FRAME_MAX_DIMENSION = 640;
+
+// Change detection compares tiny grayscale thumbnails, which also smooths out sensor noise
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+const CELL_CHANGE_LEVEL = 24;
+
+export function getFrameSignature(video: HTMLVideoElement): Uint8Array {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+
+  context.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = context.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return signature;
+}
+
+// Fraction of cells (0-1) that changed noticeably between two signatures
+export function frameDifference(a: Uint8Array, b: Uint8Array): number {
+  let changed = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > CELL_CHANGE_LEVEL) changed++;
+  }
+  return changed / a.length;
+}
+
+export function captureFrame(video: HTMLVideoElement): Promise<Blob | null> {
+  const scale = Math.min(1, FRAME_MAX_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.resolve(null);
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+}
@@ -4,6 +4,8 @@ import { genkit } from 'genkit';
 export const ai = genkit({
   plugins: [googleAI()],
   model: gemini20Flash,
+  // Persona prompts (system prompt and output format) live in prompts/*.prompt
+  promptDir: './prompts',
 });
 
 export default ai;
@@ -0,0 +1,26 @@
+import { ImageEvent } from '@/types/conversation';
+
+// Images one conversation can use at once, unless the server sets MAX_SESSION_IMAGES
+export const DEFAULT_MAX_IMAGES = 3;
+
+export function getImageEvent(before: string[], after: string[]): ImageEvent {
+  return {
+    added: after.filter((url) => !before.includes(url)),
+    removed: before.filter((url) => !after.includes(url)),
+  };
+}
+
+// Text of the system entry for a change, using the "Image N" numbers from before and after it,
+// e.g. "Removed Image 1. 2 images in use."
+export function describeImageEvent({ added, removed }: ImageEvent, before: string[], after: string[]): string {
+  const listImages = (urls: string[], gallery: string[]) =>
+    urls.map((url) => `Image ${gallery.indexOf(url) + 1}`).join(', ');
+
+  const changes = [
+    removed.length > 0 && `Removed ${listImages(removed, before)}`,
+    added.length > 0 && `Added ${listImages(added, after)}`,
+  ].filter(Boolean);
+  const count =
+    after.length === 0 ? 'No images in use' : `${after.length} ${after.length === 1 ? 'image' : 'images'} in use`;
+  return `${changes.join('; ')}. ${count}.`;
+}
@@ -0,0 +1,69 @@
+// Picking image files out of drops, pastes and file inputs, and shrinking them to fit the upload limit.
+// Browser only, apart from MAX_UPLOAD_BYTES, which the server enforces
+
+// Larger uploads are rejected by the server, so the browser downscales them first
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+// Longest side of a downscaled image; the server stores nothing larger anyway
+const MAX_SHRUNK_DIMENSION = 2048;
+
+// HEIC often arrives without a MIME type, so the extension is checked too
+export const IMAGE_ACCEPT = 'image/*,.heic,.heif';
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/') || /\.(heic|heif)$/i.test(file.name);
+}
+
+export function getImageFiles(files: FileList | File[] | null | undefined): File[] {
+  return Array.from(files ?? []).filter(isImageFile);
+}
+
+// Downscale an image over the upload limit to a JPEG the server accepts. Smaller images are returned
+// untouched so the server sees their real type, as are formats this browser cannot decode (HEIC outside Safari)
+export async function shrinkImage(image: Blob): Promise<Blob> {
+  if (image.size <= MAX_UPLOAD_BYTES) return image;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch {
+    return image;
+  }
+
+  const scale = Math.min(1, MAX_SHRUNK_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return image;
+
+  // JPEG has no transparency; fill it white as the server does for thumbnails
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const shrunk = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  return shrunk ?? image;
+}
+
+// True while dragging files (not text or links) over the page
+export function hasDraggedFiles(dataTransfer: DataTransfer | null): boolean {
+  return Array.from(dataTransfer?.types ?? []).includes('Files');
+}
+
+// Screenshots paste as an unnamed "image.png"; give each a name the upload list can tell apart
+export function getPastedImages(clipboardData: DataTransfer | null): File[] {
+  const files = Array.from(clipboardData?.items ?? [])
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => file !== null && isImageFile(file));
+
+  const time = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  return files.map((file, index) =>
+    file.name && file.name !== 'image.png'
+      ? file
+      : new File([file], `Pasted image ${time}${files.length > 1 ? ` (${index + 1})` : ''}.png`, {
+          type: file.type,
+        }),
+  );
+}
@@ -0,0 +1,96 @@
+import { ImageUploadErrorCode } from '@/types/conversation';
+import heicConvert from 'heic-convert';
+import sharp from 'sharp';
+import { MAX_UPLOAD_BYTES } from './image-files';
+import type { StoredImage } from './images';
+
+// Longest side of the stored image; larger photos cost more tokens without helping the model
+const MAX_DIMENSION = 2048;
+const THUMBNAIL_SIZE = 256;
+
+type SniffedType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' | 'image/heic' | 'image/avif';
+
+// Detect the real format from the file's first bytes; the browser-reported type can't be trusted
+export function sniffImageType(data: Buffer): SniffedType | null {
+  if (data.length < 12) return null;
+
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+  if (data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+
+  // HEIC and AVIF are ISO-BMFF files: an "ftyp" box followed by the brand
+  if (data.toString('ascii', 4, 8) === 'ftyp') {
+    const brand = data.toString('ascii', 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  }
+
+  return null;
+}
+
+// Validate an upload and turn it into something Gemini accepts:
+// - orientation from EXIF is applied to the pixels
+// - all metadata (EXIF, GPS, camera details) is dropped, which sharp does unless asked to keep it
+// - HEIC, AVIF, WebP and GIF are re-encoded as JPEG, or PNG when they have transparency
+// - a square thumbnail is produced for the gallery
+export async function processImage(
+  data: Buffer,
+): Promise<
+  | { image: StoredImage; thumbnail: StoredImage; error?: undefined; code?: undefined }
+  | { image?: undefined; thumbnail?: undefined; error: string; code: ImageUploadErrorCode }
+> {
+  if (data.length === 0) {
+    return { error: 'The file is empty', code: 'missing_file' };
+  }
+  if (data.length > MAX_UPLOAD_BYTES) {
+    return {
+      error: `Images must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller`,
+      code: 'file_too_large',
+    };
+  }
+
+  const type = sniffImageType(data);
+  if (!type) {
+    return { error: 'Only JPEG, PNG, GIF, WebP, HEIC and AVIF images are supported', code: 'unsupported_type' };
+  }
+
+  try {
+    const source = sharp(await decodeHeic(data, type), { failOn: 'error' }).rotate();
+    const { hasAlpha } = await source.metadata();
+
+    // Keep PNG for screenshots and transparent images; everything else becomes JPEG
+    const keepPng = type === 'image/png' || hasAlpha;
+    const resized = source.clone().resize({
+      width: MAX_DIMENSION,
+      height: MAX_DIMENSION,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+
+    const [image, thumbnail] = await Promise.all([
+      keepPng ? resized.png().toBuffer() : resized.jpeg({ quality: 85 }).toBuffer(),
+      source
+        .clone()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 70 })
+        .toBuffer(),
+    ]);
+
+    return {
+      image: { data: image, contentType: keepPng ? 'image/png' : 'image/jpeg' },
+      thumbnail: { data: thumbnail, contentType: 'image/jpeg' },
+    };
+  } catch (error) {
+    console.error('Error processing image:', error);
+    return { error: 'The image could not be read. It may be corrupted.', code: 'invalid_image' };
+  }
+}
+
+// Prebuilt sharp has no HEVC decoder, so HEIC photos are decoded to JPEG first. libheif applies the
+// rotation and mirroring stored in the file, leaving nothing for the EXIF step to correct
+async function decodeHeic(data: Buffer, type: SniffedType): Promise<Buffer> {
+  if (type !== 'image/heic') return data;
+  return Buffer.from(await heicConvert({ buffer: data, format: 'JPEG', quality: 0.92 }));
+}
@@ -0,0 +1,22 @@
+// Served by src/app/api/images/[id]/route.ts. Kept free of server imports so the client can build thumbnail URLs
+const IMAGE_ROUTE_PREFIX = '/api/images/';
+
+// Stable URL stored on messages and sessions. Signed URLs expire, so they are only handed out by the route
+export function getImageUrl(imageId: string): string {
+  return `${IMAGE_ROUTE_PREFIX}${imageId}`;
+}
+
+export function getImageId(imageUrl: string): string | null {
+  if (!imageUrl.startsWith(IMAGE_ROUTE_PREFIX)) return null;
+  const imageId = imageUrl.slice(IMAGE_ROUTE_PREFIX.length);
+  return isValidImageId(imageId) ? imageId : null;
+}
+
+export function isValidImageId(imageId: string): boolean {
+  return /^[a-f0-9-]{36}$/.test(imageId);
+}
+
+// Small preview for galleries and lists. Images that aren't in the store (legacy data URLs) are used as-is
+export function getThumbnailUrl(imageUrl: string): string {
+  return getImageId(imageUrl) ? `${imageUrl}?variant=thumbnail` : imageUrl;
+}
@@ -0,0 +1,236 @@
+import { ChatSession, ImageUploadErrorCode } from '@/types/conversation';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { Part } from 'genkit';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { processImage } from './image-pipeline';
+import { getImageId, getImageUrl, isValidImageId } from './image-urls';
+
+const SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+export interface StoredImage {
+  data: Buffer;
+  contentType: string;
+}
+
+// Every upload is stored as the normalized original plus a gallery thumbnail
+export type ImageVariant = 'original' | 'thumbnail';
+
+export const IMAGE_VARIANTS: ImageVariant[] = ['original', 'thumbnail'];
+
+// Storage backend for uploaded images. Messages and sessions only keep the image URL
+export interface ImageStore {
+  put(imageId: string, variant: ImageVariant, image: StoredImage): Promise<void>;
+  get(imageId: string, variant?: ImageVariant): Promise<StoredImage | null>;
+  delete(imageId: string): Promise<void>;
+  // Direct URL for backends that can serve the image themselves; null means stream it through the route
+  getSignedUrl(imageId: string, variant?: ImageVariant): Promise<string | null>;
+}
+
+// Default store - one file per variant plus a small JSON sidecar for the content type
+export class FileImageStore implements ImageStore {
+  constructor(private directory: string) {}
+
+  async put(imageId: string, variant: ImageVariant, image: StoredImage) {
+    if (!isValidImageId(imageId)) {
+      throw new Error(`Invalid image id: ${imageId}`);
+    }
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(imageId, variant), image.data);
+    await writeFile(
+      `${this.filePath(imageId, variant)}.json`,
+      JSON.stringify({ contentType: image.contentType }),
+      'utf-8',
+    );
+  }
+
+  async get(imageId: string, variant: ImageVariant = 'original') {
+    if (!isValidImageId(imageId)) return null;
+
+    try {
+      const [data, meta] = await Promise.all([
+        readFile(this.filePath(imageId, variant)),
+        readFile(`${this.filePath(imageId, variant)}.json`, 'utf-8'),
+      ]);
+      return { data, contentType: JSON.parse(meta).contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(imageId: string) {
+    if (!isValidImageId(imageId)) return;
+    for (const variant of IMAGE_VARIANTS) {
+      await rm(this.filePath(imageId, variant), { force: true });
+      await rm(`${this.filePath(imageId, variant)}.json`, { force: true });
+    }
+  }
+
+  async getSignedUrl() {
+    return null;
+  }
+
+  private filePath(imageId: string, variant: ImageVariant) {
+    return path.join(this.directory, variant === 'original' ? imageId : `${imageId}.${variant}`);
+  }
+}
+
+// S3-compatible object storage: AWS S3, Firebase/Cloud Storage via its S3 interoperability API,
+// or a local emulator such as MinIO when S3_ENDPOINT is set
+export class S3ImageStore implements ImageStore {
+  private client: S3Client;
+
+  private prefix: string;
+
+  constructor(
+    private bucket: string,
+    options: { endpoint?: string; region?: string; prefix?: string } = {},
+  ) {
+    this.prefix = options.prefix ?? 'images';
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      // Emulators don't resolve bucket subdomains
+      forcePathStyle: Boolean(options.endpoint),
+    });
+  }
+
+  async put(imageId: string, variant: ImageVariant, image: StoredImage) {
+    if (!isValidImageId(imageId)) {
+      throw new Error(`Invalid image id: ${imageId}`);
+    }
+
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(imageId, variant),
+        Body: image.data,
+        ContentType: image.contentType,
+      }),
+    );
+  }
+
+  async get(imageId: string, variant: ImageVariant = 'original') {
+    if (!isValidImageId(imageId)) return null;
+
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(imageId, variant) }),
+      );
+      if (!object.Body) return null;
+      return {
+        data: Buffer.from(await object.Body.transformToByteArray()),
+        contentType: object.ContentType || 'image/jpeg',
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async delete(imageId: string) {
+    if (!isValidImageId(imageId)) return;
+    for (const variant of IMAGE_VARIANTS) {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(imageId, variant) }));
+    }
+  }
+
+  async getSignedUrl(imageId: string, variant: ImageVariant = 'original') {
+    if (!isValidImageId(imageId)) return null;
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(imageId, variant) }),
+      { expiresIn: SIGNED_URL_TTL_SECONDS },
+    );
+  }
+
+  private objectKey(imageId: string, variant: ImageVariant) {
+    return `${this.prefix}/${imageId}/${variant}`;
+  }
+}
+
+// Keep the store on globalThis so dev-mode hot reloads reuse the same client
+const globalForImages = globalThis as unknown as { imageStore?: ImageStore };
+
+export function getImageStore(): ImageStore {
+  if (!globalForImages.imageStore) {
+    globalForImages.imageStore =
+      process.env.IMAGE_STORE === 's3'
+        ? new S3ImageStore(process.env.S3_BUCKET || 'lens-images', {
+            endpoint: process.env.S3_ENDPOINT,
+            region: process.env.S3_REGION,
+          })
+        : new FileImageStore(process.env.IMAGE_STORE_DIR || path.join(process.cwd(), '.data', 'images'));
+  }
+  return globalForImages.imageStore;
+}
+
+// Images the chat accepts: stored images, plus data URLs that a session saved before the image store
+// already holds. Any other data URL would skip upload validation and metadata stripping
+export function isAcceptedImageUrl(imageUrl: string, session: ChatSession): boolean {
+  if (getImageId(imageUrl) !== null) return true;
+  if (!imageUrl.startsWith('data:image/')) return false;
+
+  return (
+    session.images.includes(imageUrl) ||
+    session.messages.some((message) => message.imageUrl === imageUrl || message.imageUrls?.includes(imageUrl))
+  );
+}
+
+// Validate and normalize an upload, then store it with its thumbnail
+export async function saveImage(
+  data: Buffer,
+): Promise<
+  | { imageUrl: string; error?: undefined; code?: undefined }
+  | { imageUrl?: undefined; error: string; code: ImageUploadErrorCode }
+> {
+  const result = await processImage(data);
+  if (!result.image) {
+    return { error: result.error, code: result.code };
+  }
+
+  const imageId = uuidv4();
+  const store = getImageStore();
+  await store.put(imageId, 'original', result.image);
+  await store.put(imageId, 'thumbnail', result.thumbnail);
+  return { imageUrl: getImageUrl(imageId) };
+}
+
+// Move an embedded data URL into the store, e.g. when importing an exported conversation
+export async function storeDataUrl(dataUrl: string): Promise<string> {
+  const [, base64] = dataUrl.match(/^data:[^;]+;base64,(.*)$/) ?? [];
+  if (!base64) {
+    throw new Error('Not a base64 data URL');
+  }
+
+  const { imageUrl, error } = await saveImage(Buffer.from(base64, 'base64'));
+  if (!imageUrl) {
+    throw new Error(error);
+  }
+  return imageUrl;
+}
+
+// Gemini can't fetch our route URLs, so stored images are inlined as data URLs right before a request
+export async function inlineStoredImages(parts: Part[]): Promise<Part[]> {
+  return Promise.all(
+    parts.map(async (part) => {
+      const imageId = part.media ? getImageId(part.media.url) : null;
+      if (!imageId) return part;
+
+      const image = await getImageStore().get(imageId);
+      if (!image) {
+        throw new Error(`Image ${imageId} not found`);
+      }
+      return {
+        media: {
+          url: `data:${image.contentType};base64,${image.data.toString('base64')}`,
+          contentType: image.contentType,
+        },
+      };
+    }),
+  );
+}
@@ -0,0 +1,72 @@
+export interface Language {
+  // BCP-47 tag used for speech recognition and to match speech synthesis voices
+  code: string;
+  // Native name shown in the picker
+  label: string;
+  // English name used in the prompt ("Always answer in ...")
+  name: string;
+}
+
+// Recognition follows the browser's language and replies follow the question's language
+export const AUTO_LANGUAGE = 'auto';
+
+export const LANGUAGES: Language[] = [
+  { code: 'en-US', label: 'English (US)', name: 'English' },
+  { code: 'en-GB', label: 'English (UK)', name: 'British English' },
+  { code: 'es-ES', label: 'Español', name: 'Spanish' },
+  { code: 'fr-FR', label: 'Français', name: 'French' },
+  { code: 'de-DE', label: 'Deutsch', name: 'German' },
+  { code: 'it-IT', label: 'Italiano', name: 'Italian' },
+  { code: 'pt-BR', label: 'Português (Brasil)', name: 'Brazilian Portuguese' },
+  { code: 'nl-NL', label: 'Nederlands', name: 'Dutch' },
+  { code: 'pl-PL', label: 'Polski', name: 'Polish' },
+  { code: 'tr-TR', label: 'Türkçe', name: 'Turkish' },
+  { code: 'ru-RU', label: 'Русский', name: 'Russian' },
+  { code: 'uk-UA', label: 'Українська', name: 'Ukrainian' },
+  { code: 'ar-SA', label: 'العربية', name: 'Arabic' },
+  { code: 'hi-IN', label: 'हिन्दी', name: 'Hindi' },
+  { code: 'sw-KE', label: 'Kiswahili', name: 'Swahili' },
+  { code: 'id-ID', label: 'Bahasa Indonesia', name: 'Indonesian' },
+  { code: 'vi-VN', label: 'Tiếng Việt', name: 'Vietnamese' },
+  { code: 'zh-CN', label: '中文 (简体)', name: 'Simplified Chinese' },
+  { code: 'ja-JP', label: '日本語', name: 'Japanese' },
+  { code: 'ko-KR', label: '한국어', name: 'Korean' },
+];
+
+export function getLanguage(code: string): Language | undefined {
+  return LANGUAGES.find((language) => language.code === code);
+}
+
+export function isSupportedLanguage(code: string): boolean {
+  return code === AUTO_LANGUAGE || !!getLanguage(code);
+}
+
+// Voices report tags like "fr-CA" or "fr_FR"; any voice for the same base language can read the reply
+export function matchesLanguage(voiceLang: string, code: string): boolean {
+  return voiceLang.replace('_', '-').split('-')[0].toLowerCase() === code.split('-')[0].toLowerCase();
+}
+
+// Browser-only helpers for the Web Speech APIs
+
+export function getRecognitionLanguage(code: string): string {
+  return code === AUTO_LANGUAGE ? navigator.language || 'en-US' : code;
+}
+
+export function getVoicesForLanguage(code: string): SpeechSynthesisVoice[] {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) return [];
+  const voices = window.speechSynthesis.getVoices();
+  return code === AUTO_LANGUAGE ? voices : voices.filter((voice) => matchesLanguage(voice.lang, code));
+}
+
+// Utterance in the conversation's language, with the chosen voice when it is still installed
+export function createUtterance(text: string, code: string, voiceURI?: string): SpeechSynthesisUtterance {
+  const utterance = new SpeechSynthesisUtterance(text);
+  if (code !== AUTO_LANGUAGE) {
+    utterance.lang = code;
+  }
+  const voice = getVoicesForLanguage(code).find((candidate) => candidate.voiceURI === voiceURI);
+  if (voice) {
+    utterance.voice = voice;
+  }
+  return utterance;
+}
@@ -0,0 +1,66 @@
+import { z } from 'genkit';
+
+// Live lens frames are downscaled JPEGs from the camera preview
+export const MAX_LIVE_FRAME_BYTES = 1024 * 1024;
+export const MAX_LIVE_QUESTION_LENGTH = 500;
+
+// Upper bound per client, whatever interval it asks for and however many runs it starts. Without a trusted
+// proxy to identify clients, all of them share it
+export const LIVE_FRAMES_PER_MINUTE = 20;
+
+export const LiveCaptionSchema = z.object({
+  report: z
+    .boolean()
+    .describe('True only if this frame shows something new that answers the question or meets its condition'),
+  caption: z.string().describe('One short sentence for the caption feed. Empty when report is false.'),
+});
+
+export function buildLivePrompt(question: string, previousCaption?: string, language?: string): string {
+  let prompt = `You are watching a live camera feed, one frame at a time. The user's standing request is:
+"${question}"
+
+Look at this frame. If it shows something that answers the request or meets its condition, report it in one short sentence. If nothing relevant is visible, or it is the same as what was last reported, do not report.
+`;
+  if (previousCaption) {
+    prompt += `\nLast reported: "${previousCaption}"\n`;
+  }
+  if (language) {
+    prompt += `\nWrite the caption in ${language}.\n`;
+  }
+  return prompt;
+}
+
+// Key shared by every client when they can't be told apart
+const ALL_CLIENTS = 'all';
+
+// The key frames are rate limited by. Clients can send x-real-ip and x-forwarded-for themselves, so they
+// only identify a client when TRUST_PROXY_HEADERS says a proxy in front of the app sets them. The last
+// x-forwarded-for entry is the one the nearest proxy added
+export function getRateLimitKey(headers: Headers): string {
+  if (process.env.TRUST_PROXY_HEADERS !== 'true') return ALL_CLIENTS;
+
+  const forwarded = headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return headers.get('x-real-ip')?.trim() || forwarded || ALL_CLIENTS;
+}
+
+// Sliding one-minute window of request times per rate limit key
+const globalForLive = globalThis as unknown as { liveRequests?: Map<string, number[]> };
+
+// Returns 0 when the frame may be analyzed, otherwise how long to wait in milliseconds
+export function takeLiveFrameSlot(key: string, now: number = Date.now()): number {
+  const requests = (globalForLive.liveRequests ??= new Map());
+
+  // Forget clients that have been idle for a minute
+  for (const [idleKey, times] of requests) {
+    if (times[times.length - 1] <= now - 60_000) requests.delete(idleKey);
+  }
+
+  const recent = (requests.get(key) ?? []).filter((time: number) => time > now - 60_000);
+  if (recent.length >= LIVE_FRAMES_PER_MINUTE) {
+    requests.set(key, recent);
+    return recent[0] + 60_000 - now;
+  }
+
+  requests.set(key, [...recent, now]);
+  return 0;
+}
@@ -0,0 +1,33 @@
+// Plain-text version of a markdown reply, for speech. Shared by browser speech and server-side synthesis
+// so neither reads out asterisks, hashes or table pipes
+export function toPlainText(markdown: string): string {
+  return (
+    markdown
+      // Fenced code keeps its content; the fences and language tag go
+      .replace(/^ {0,3}(```|~~~)[^\n]*\n([\s\S]*?)^ {0,3}\1[^\S\n]*$/gm, '$2')
+      // Images and links read as their text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      // Table separator rows, then cell pipes
+      .replace(/^[^\S\n]*\|?[^\S\n]*:?-{3,}:?[^\S\n]*(\|[^\S\n]*:?-{3,}:?[^\S\n]*)*\|?[^\S\n]*(?:\n|$)/gm, '')
+      .replace(/^[^\S\n]*\|(.*)\|[^\S\n]*$/gm, (_, cells: string) =>
+        cells
+          .split('|')
+          .map((cell) => cell.trim())
+          .filter(Boolean)
+          .join(', '),
+      )
+      // Headings, quotes, bullets and horizontal rules
+      .replace(/^ {0,3}#{1,6}\s+/gm, '')
+      .replace(/^ {0,3}>\s?/gm, '')
+      .replace(/^([^\S\n]*)[-*+][^\S\n]+(\[[ xX]\][^\S\n]+)?/gm, '$1')
+      .replace(/^ {0,3}([-*_])([^\S\n]*\1){2,}[^\S\n]*$/gm, '')
+      // Emphasis, strikethrough and inline code
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+}
@@ -0,0 +1,83 @@
+import { GenerationSettings, ResponseLength } from '@/types/conversation';
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  description: string;
+  maxOutputTokens: number;
+}
+
+// Models the app is allowed to call; requests for anything else are rejected on the server
+export const ALLOWED_MODELS: ModelOption[] = [
+  {
+    id: 'googleai/gemini-2.0-flash',
+    label: 'Gemini 2.0 Flash',
+    description: 'Fast, good default for demos',
+    maxOutputTokens: 8192,
+  },
+  {
+    id: 'googleai/gemini-2.0-flash-lite',
+    label: 'Gemini 2.0 Flash-Lite',
+    description: 'Lowest latency and cost',
+    maxOutputTokens: 8192,
+  },
+  {
+    id: 'googleai/gemini-2.5-flash',
+    label: 'Gemini 2.5 Flash',
+    description: 'Stronger reasoning, still fast',
+    maxOutputTokens: 65536,
+  },
+  {
+    id: 'googleai/gemini-2.5-pro',
+    label: 'Gemini 2.5 Pro',
+    description: 'Most capable, slowest',
+    maxOutputTokens: 65536,
+  },
+];
+
+export const RESPONSE_LENGTH_PRESETS: Record<
+  ResponseLength,
+  { label: string; words: number; maxOutputTokens: number }
+> = {
+  short: { label: 'Short', words: 150, maxOutputTokens: 400 },
+  medium: { label: 'Medium', words: 300, maxOutputTokens: 800 },
+  long: { label: 'Long', words: 600, maxOutputTokens: 1600 },
+};
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+  model: ALLOWED_MODELS[0].id,
+  temperature: 0.7,
+  maxOutputTokens: RESPONSE_LENGTH_PRESETS.long.maxOutputTokens,
+  responseLength: 'long',
+};
+
+export function getModelOption(modelId: string): ModelOption | undefined {
+  return ALLOWED_MODELS.find((model) => model.id === modelId);
+}
+
+// Check client-provided settings against the allowed list, filling in defaults
+export function resolveGenerationSettings(
+  settings?: Partial<GenerationSettings>,
+): { settings: GenerationSettings; error?: undefined } | { settings?: undefined; error: string } {
+  const resolved = { ...DEFAULT_SETTINGS, ...settings };
+
+  const model = getModelOption(resolved.model);
+  if (!model) {
+    return { error: `Model "${resolved.model}" is not allowed` };
+  }
+  if (!(resolved.responseLength in RESPONSE_LENGTH_PRESETS)) {
+    return { error: `Unknown response length "${resolved.responseLength}"` };
+  }
+  if (!Number.isFinite(resolved.temperature) || resolved.temperature < 0 || resolved.temperature > 2) {
+    return { error: 'Temperature must be between 0 and 2' };
+  }
+  if (
+    !Number.isInteger(resolved.maxOutputTokens) ||
+    resolved.maxOutputTokens < 1 ||
+    resolved.maxOutputTokens > model.maxOutputTokens
+  ) {
+    return { error: `Max tokens must be between 1 and ${model.maxOutputTokens} for ${model.label}` };
+  }
+
+  return { settings: resolved };
+}
@@ -0,0 +1,50 @@
+export interface Persona {
+  // Matches the dotprompt file name in prompts/, which holds the system prompt and output format
+  id: string;
+  label: string;
+  description: string;
+  starters: string[];
+}
+
+export const PERSONAS: Persona[] = [
+  {
+    id: 'general',
+    label: 'General analysis',
+    description: 'Describe and answer questions about any image',
+    starters: ['What do you see in this image?', 'What stands out the most?', 'Describe the scene in detail.'],
+  },
+  {
+    id: 'code',
+    label: 'Code screenshot',
+    description: 'Transcribe, explain and debug code and error messages',
+    starters: ['What does this code do?', 'Why is this error happening?', 'Transcribe this code.'],
+  },
+  {
+    id: 'whiteboard',
+    label: 'Whiteboard & diagrams',
+    description: 'Explain sketches, architecture diagrams and meeting boards',
+    starters: [
+      'Explain this diagram step by step.',
+      'What are the action items on this board?',
+      'Turn this into an outline.',
+    ],
+  },
+  {
+    id: 'receipt',
+    label: 'Receipt check',
+    description: 'Itemise receipts and check the totals',
+    starters: ['List the items on this receipt.', 'Do the totals add up?', 'How much tax was charged?'],
+  },
+  {
+    id: 'alt-text',
+    label: 'Accessibility alt text',
+    description: 'Write alt text and descriptions for screen readers',
+    starters: ['Write alt text for this image.', 'Describe this for a screen reader user.'],
+  },
+];
+
+export const DEFAULT_PERSONA_ID = PERSONAS[0].id;
+
+export function getPersona(personaId?: string): Persona | undefined {
+  return PERSONAS.find((persona) => persona.id === personaId);
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withRetry } from './retry';
+
+// An error the classifier treats as a passing outage
+const outage = () => Object.assign(new Error('fetch failed'), { status: 503 });
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the value of a successful call without retrying', async () => {
+    const operation = vi.fn(async () => 'answer');
+
+    await expect(withRetry(operation)).resolves.toEqual({ value: 'answer' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient failures with backoff until one succeeds', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(outage()).mockRejectedValueOnce(outage()).mockResolvedValue('ok');
+
+    const result = withRetry(operation);
+    // First wait is 1-2s, the second 2-3s
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await expect(result).resolves.toEqual({ value: 'ok' });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports the error once the attempts run out', async () => {
+    const operation = vi.fn().mockRejectedValue(outage());
+
+    const result = withRetry(operation);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ error: { code: 'unavailable' } });
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('FAILED_PRECONDITION: Generation blocked.'));
+
+    const result = await withRetry(operation);
+
+    expect(result.error).toMatchObject({ code: 'safety_blocked', target: 'answer' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits as long as a rate limit asks', async () => {
+    const rateLimited = Object.assign(new Error('[429 Too Many Requests]'), {
+      status: 429,
+      errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '4s' }],
+    });
+    const operation = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValue('ok');
+
+    const result = withRetry(operation);
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toEqual({ value: 'ok' });
+  });
+
+  it('reports a rate limit that asks for a long wait instead of waiting', async () => {
+    const rateLimited = Object.assign(new Error('[429 Too Many Requests]'), {
+      status: 429,
+      errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '31s' }],
+    });
+    const operation = vi.fn().mockRejectedValue(rateLimited);
+
+    await expect(withRetry(operation)).resolves.toEqual({ error: { code: 'rate_limited', retryAfterMs: 31_000 } });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels an attempt that runs past the timeout and counts it as a timeout', async () => {
+    const signals: AbortSignal[] = [];
+    const operation = vi.fn(
+      (signal: AbortSignal) =>
+        new Promise<string>((_, reject) => {
+          signals.push(signal);
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        }),
+    );
+
+    const result = withRetry(operation, { timeoutMs: 1000 });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ error: { code: 'timeout' } });
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('stops retrying once the caller cancels', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(outage());
+
+    const result = withRetry(operation, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual({ error: { code: 'unavailable' } });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,81 @@
+import { ChatError } from '@/types/conversation';
+import { shouldRetryAutomatically, toChatError } from './chat-errors';
+
+// Attempts per Gemini call, counting the first
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+// A rate limit that asks for a longer wait is reported rather than waited out
+const MAX_DELAY_MS = 10_000;
+// How long one attempt may run before it is cancelled and counted as a timeout
+export const GENERATION_TIMEOUT_MS = 60_000;
+
+export interface RetryOptions {
+  timeoutMs?: number;
+  // Cancels the call for good, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export type RetryResult<T> = { value: T; error?: undefined } | { value?: undefined; error: ChatError };
+
+// Run a Gemini call, retrying rate limits, timeouts and outages with exponential backoff.
+// The operation gets a signal that fires on timeout or cancellation. The timeout ends once the
+// operation resolves, so a stream can keep going after its first chunk
+export async function withRetry<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { timeoutMs = GENERATION_TIMEOUT_MS, signal }: RetryOptions = {},
+): Promise<RetryResult<T>> {
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const cancel = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return { value: await operation(controller.signal) };
+    } catch (cause) {
+      signal?.removeEventListener('abort', cancel);
+      const error: ChatError = timedOut ? { code: 'timeout' } : toChatError(cause);
+      const delay = getRetryDelay(error, attempt);
+      if (signal?.aborted || delay === null) {
+        console.error(`Gemini call failed (${error.code}, attempt ${attempt}):`, cause);
+        return { error };
+      }
+
+      console.warn(`Gemini call failed (${error.code}), retrying in ${delay}ms`);
+      await wait(delay, signal);
+      if (signal?.aborted) return { error };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Exponential backoff with jitter, or the wait the API asked for; null when the call should not be retried
+function getRetryDelay(error: ChatError, attempt: number): number | null {
+  if (attempt >= MAX_ATTEMPTS || !shouldRetryAutomatically(error)) return null;
+
+  const delay =
+    error.code === 'rate_limited' && error.retryAfterMs
+      ? error.retryAfterMs
+      : BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * BASE_DELAY_MS;
+  return delay <= MAX_DELAY_MS ? Math.round(delay) : null;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
@@ -0,0 +1,63 @@
+import { FinishReason, SafetyCategory, SafetyRating, SafetyThreshold } from '@/types/conversation';
+
+// Harm categories Gemini rates, by the name shown to users. Client-safe, so the chat explains a block
+// in the same words the server uses
+export const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  HARM_CATEGORY_HARASSMENT: 'harassment',
+  HARM_CATEGORY_HATE_SPEECH: 'hate speech',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'sexually explicit content',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'dangerous content',
+  HARM_CATEGORY_CIVIC_INTEGRITY: 'election-related content',
+};
+
+export const SAFETY_CATEGORIES = Object.keys(SAFETY_CATEGORY_LABELS) as SafetyCategory[];
+
+export const SAFETY_THRESHOLDS: SafetyThreshold[] = [
+  'BLOCK_NONE',
+  'BLOCK_ONLY_HIGH',
+  'BLOCK_MEDIUM_AND_ABOVE',
+  'BLOCK_LOW_AND_ABOVE',
+];
+
+const PROBABILITIES: SafetyRating['probability'][] = ['NEGLIGIBLE', 'LOW', 'MEDIUM', 'HIGH'];
+const FINISH_REASONS: FinishReason[] = ['stop', 'length', 'blocked', 'other'];
+
+// Ratings worth pointing out: the ones Gemini blocked on or rated at least medium
+export function getFlaggedRatings(ratings: SafetyRating[] = []): SafetyRating[] {
+  return ratings.filter((rating) => rating.blocked || rating.probability === 'MEDIUM' || rating.probability === 'HIGH');
+}
+
+// Why a question or answer was blocked, naming the categories behind it when Gemini reports them.
+// Recitation blocks come without ratings and get the general explanation
+export function describeSafetyBlock(target: 'question' | 'answer', ratings: SafetyRating[] = []): string {
+  const blockedOn = ratings.filter((rating) => rating.blocked);
+  const categories = (blockedOn.length > 0 ? blockedOn : getFlaggedRatings(ratings)).map(
+    (rating) => SAFETY_CATEGORY_LABELS[rating.category],
+  );
+  const reason = categories.length > 0 ? ` because it may contain ${categories.join(' or ')}` : '';
+
+  return target === 'question'
+    ? `Gemini's safety filters blocked this question${reason}. Try rephrasing it or using a different image.`
+    : `Gemini's safety filters stopped this answer${reason}. Try rephrasing the question or using a different image.`;
+}
+
+// Finish reason and safety ratings of a Genkit response to a Gemini call. Genkit keeps the raw API
+// response, which has the ratings, in `custom`
+export function getSafetyInfo(response: { finishReason?: string; custom?: unknown }): {
+  finishReason: FinishReason;
+  safetyRatings?: SafetyRating[];
+} {
+  const custom = response.custom as { candidates?: { safetyRatings?: unknown }[] } | undefined;
+  const finishReason = FINISH_REASONS.find((reason) => reason === response.finishReason) ?? 'unknown';
+  return { finishReason, safetyRatings: toSafetyRatings(custom?.candidates?.[0]?.safetyRatings) };
+}
+
+function toSafetyRatings(value: unknown): SafetyRating[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  return value
+    .filter((rating) => SAFETY_CATEGORIES.includes(rating?.category) && PROBABILITIES.includes(rating?.probability))
+    .map(({ category, probability, blocked }) =>
+      blocked ? { category, probability, blocked } : { category, probability },
+    );
+}
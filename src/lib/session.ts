@@ -0,0 +1,251 @@
+import { ChatSession, ChatSessionSummary, Message, TurnOptions } from '@/types/conversation';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { getBranch, linkMessages } from './conversation-tree';
+
+// Storage backend for chat sessions
+export interface SessionStore {
+  get(sessionId: string): Promise<ChatSession | null>;
+  save(session: ChatSession): Promise<void>;
+  // Apply a change to the stored copy of a session, so writes from concurrent requests are not lost.
+  // Resolves to the saved session, or null when it no longer exists
+  update(sessionId: string, change: (session: ChatSession) => ChatSession): Promise<ChatSession | null>;
+  delete(sessionId: string): Promise<void>;
+  list(): Promise<ChatSessionSummary[]>;
+}
+
+// Default store - sessions live as long as the server process
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ChatSession>();
+
+  async get(sessionId: string) {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  async save(session: ChatSession) {
+    this.sessions.set(session.id, session);
+  }
+
+  async update(sessionId: string, change: (session: ChatSession) => ChatSession) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    const updated = change(session);
+    this.sessions.set(sessionId, updated);
+    return updated;
+  }
+
+  async delete(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  async list() {
+    return [...this.sessions.values()].map(toSummary).sort(byMostRecent);
+  }
+}
+
+// One JSON file per session, so conversations survive server restarts
+export class FileSessionStore implements SessionStore {
+  // Writes to the same session run one at a time, since an update reads the file before writing it
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private directory: string) {}
+
+  async get(sessionId: string) {
+    if (!isValidSessionId(sessionId)) return null;
+
+    try {
+      const json = await readFile(this.filePath(sessionId), 'utf-8');
+      return reviveSession(JSON.parse(json));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(session: ChatSession) {
+    if (!isValidSessionId(session.id)) {
+      throw new Error(`Invalid session id: ${session.id}`);
+    }
+    await this.enqueue(session.id, () => this.write(session));
+  }
+
+  async update(sessionId: string, change: (session: ChatSession) => ChatSession) {
+    return this.enqueue(sessionId, async () => {
+      const session = await this.get(sessionId);
+      if (!session) return null;
+
+      const updated = change(session);
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  // Run a task after the session's earlier writes, whether or not they succeeded
+  private enqueue<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const next = (this.queues.get(sessionId) ?? Promise.resolve()).catch(() => undefined).then(task);
+    this.queues.set(sessionId, next);
+
+    const cleanUp = () => {
+      if (this.queues.get(sessionId) === next) this.queues.delete(sessionId);
+    };
+    next.then(cleanUp, cleanUp);
+    return next;
+  }
+
+  // Write a temporary file and rename it over the session, so a crash never leaves a half-written file
+  private async write(session: ChatSession) {
+    await mkdir(this.directory, { recursive: true });
+    const tempPath = `${this.filePath(session.id)}.${uuidv4()}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(session), 'utf-8');
+      await rename(tempPath, this.filePath(session.id));
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(sessionId: string) {
+    if (!isValidSessionId(sessionId)) return;
+    await this.enqueue(sessionId, () => rm(this.filePath(sessionId), { force: true }));
+  }
+
+  async list() {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const sessions = await Promise.all(
+      files.filter((file) => file.endsWith('.json')).map((file) => this.get(path.basename(file, '.json'))),
+    );
+
+    return sessions
+      .filter((session): session is ChatSession => session !== null)
+      .map(toSummary)
+      .sort(byMostRecent);
+  }
+
+  private filePath(sessionId: string) {
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
+
+// Keep the store on globalThis so dev-mode hot reloads don't drop in-memory sessions
+const globalForSessions = globalThis as unknown as { sessionStore?: SessionStore };
+
+export function getSessionStore(): SessionStore {
+  if (!globalForSessions.sessionStore) {
+    globalForSessions.sessionStore =
+      process.env.SESSION_STORE === 'file'
+        ? new FileSessionStore(process.env.SESSION_STORE_DIR || path.join(process.cwd(), '.data', 'sessions'))
+        : new MemorySessionStore();
+  }
+  return globalForSessions.sessionStore;
+}
+
+export function createSession(): ChatSession {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    images: [],
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+type TurnUpdates = Partial<Pick<ChatSession, 'images' | 'personaId' | 'language'>>;
+
+// Persist one exchange along with the image set, persona and language it was asked with.
+// Its last message becomes the active leaf, so a reload shows the branch it was added to.
+// `session` is the copy the turn was generated from: the turn is added to the latest stored copy, and
+// settings another request changed in the meantime (a new image set, say) keep that newer value
+export async function recordTurn(
+  session: ChatSession,
+  turn: Message[],
+  updates: TurnUpdates = {},
+): Promise<ChatSession | null> {
+  return getSessionStore().update(session.id, (latest) => {
+    const isUnchanged = (key: keyof TurnUpdates) => JSON.stringify(latest[key]) === JSON.stringify(session[key]);
+    return {
+      ...latest,
+      ...Object.fromEntries(Object.entries(updates).filter(([key]) => isUnchanged(key as keyof TurnUpdates))),
+      messages: [...latest.messages, ...turn],
+      activeLeafId: turn.length > 0 ? turn[turn.length - 1].id : latest.activeLeafId,
+      updatedAt: new Date(),
+    };
+  });
+}
+
+export interface TurnPlacement {
+  // The stored question when regenerating; otherwise the caller adds a new one under parentId
+  question?: Message;
+  parentId: string | null;
+  // The branch the answer follows, which is what the model sees as history
+  history: Message[];
+}
+
+// Work out where a new exchange attaches in the session's tree
+export function placeTurn(session: ChatSession, options: TurnOptions = {}): TurnPlacement | { error: string } {
+  if (options.regenerateId) {
+    const question = session.messages.find((message) => message.id === options.regenerateId && message.role === 'user');
+    if (!question) return { error: 'The question to answer again could not be found.' };
+
+    const parentId = question.parentId ?? null;
+    return { question, parentId, history: getBranch(session.messages, parentId) };
+  }
+
+  const parentId = options.parentId === undefined ? (session.activeLeafId ?? null) : options.parentId;
+  if (parentId !== null && !session.messages.some((message) => message.id === parentId)) {
+    return { error: 'The message to reply to could not be found.' };
+  }
+  return { parentId, history: getBranch(session.messages, parentId) };
+}
+
+// Use the ID the client already shows a message under, unless it is malformed or taken
+export function getMessageId(session: ChatSession, requestedId?: string): string {
+  const isUsable =
+    typeof requestedId === 'string' &&
+    /^[a-f0-9-]{36}$/.test(requestedId) &&
+    !session.messages.some((message) => message.id === requestedId);
+  return isUsable ? requestedId : uuidv4();
+}
+
+export function isValidSessionId(sessionId: string): boolean {
+  return /^[a-zA-Z0-9-]{1,64}$/.test(sessionId);
+}
+
+function toSummary(session: ChatSession): ChatSessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    thumbnail: session.images[0],
+    firstQuestion: session.messages.find((message) => message.role === 'user')?.content,
+    messageCount: getBranch(session.messages, session.activeLeafId).length,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+function byMostRecent(a: ChatSessionSummary, b: ChatSessionSummary) {
+  return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+}
+
+// JSON has no Date type, so restore timestamps after reading from disk or an imported file.
+// Older sessions were a flat list; they become a single branch ending at the last message
+export function reviveSession(session: ChatSession): ChatSession {
+  const messages = linkMessages(session.messages);
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+    messages: messages.map((message) => ({ ...message, timestamp: new Date(message.timestamp) })),
+    activeLeafId: session.activeLeafId ?? messages[messages.length - 1]?.id,
+  };
+}
@@ -0,0 +1,115 @@
+import { googleAI } from '@genkit-ai/googleai';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ai } from './genkit';
+import { isValidImageId } from './image-urls';
+import { FileImageStore, ImageStore, S3ImageStore, StoredImage } from './images';
+
+// Served by src/app/api/audio/[id]/route.ts
+const AUDIO_ROUTE_PREFIX = '/api/audio/';
+
+// Gemini TTS reads the whole reply in one request; very long replies are cut to keep latency reasonable
+const MAX_SPEECH_CHARS = 4000;
+
+// Text-to-speech backend for assistant replies
+export interface SpeechSynthesizer {
+  synthesize(text: string): Promise<StoredImage>;
+}
+
+// Gemini TTS returns raw 16-bit PCM, which is wrapped in a WAV header so browsers can play it
+export class GeminiSpeechSynthesizer implements SpeechSynthesizer {
+  constructor(private voiceName: string = 'Kore') {}
+
+  async synthesize(text: string) {
+    const response = await ai.generate({
+      model: googleAI.model('gemini-2.5-flash-preview-tts'),
+      prompt: text.slice(0, MAX_SPEECH_CHARS),
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: this.voiceName } },
+        },
+      },
+    });
+
+    const media = response.media;
+    if (!media) {
+      throw new Error('No audio returned by the TTS model');
+    }
+
+    const pcm = Buffer.from(media.url.slice(media.url.indexOf(',') + 1), 'base64');
+    const sampleRate = Number(media.contentType?.match(/rate=(\d+)/)?.[1]) || 24000;
+    return { data: toWav(pcm, sampleRate), contentType: 'audio/wav' };
+  }
+}
+
+// Local stand-in for tests and offline development: a quiet tone roughly as long as reading the text
+export class StubSpeechSynthesizer implements SpeechSynthesizer {
+  async synthesize(text: string) {
+    const sampleRate = 8000;
+    const seconds = Math.min(10, Math.max(1, text.split(/\s+/).length / 3));
+    const pcm = Buffer.alloc(Math.round(seconds * sampleRate) * 2);
+    for (let i = 0; i < pcm.length / 2; i++) {
+      pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 2000), i * 2);
+    }
+    return { data: toWav(pcm, sampleRate), contentType: 'audio/wav' };
+  }
+}
+
+// TTS is off unless TTS_PROVIDER is set; the chat then falls back to the browser's speech synthesis
+export function getSpeechSynthesizer(): SpeechSynthesizer | null {
+  switch (process.env.TTS_PROVIDER) {
+    case 'gemini':
+      return new GeminiSpeechSynthesizer(process.env.TTS_VOICE || undefined);
+    case 'stub':
+      return new StubSpeechSynthesizer();
+    default:
+      return null;
+  }
+}
+
+// Audio clips use the same blob stores as images, under their own directory or key prefix
+const globalForAudio = globalThis as unknown as { audioStore?: ImageStore };
+
+export function getAudioStore(): ImageStore {
+  if (!globalForAudio.audioStore) {
+    globalForAudio.audioStore =
+      process.env.IMAGE_STORE === 's3'
+        ? new S3ImageStore(process.env.S3_BUCKET || 'lens-images', {
+            endpoint: process.env.S3_ENDPOINT,
+            region: process.env.S3_REGION,
+            prefix: 'audio',
+          })
+        : new FileImageStore(process.env.AUDIO_STORE_DIR || path.join(process.cwd(), '.data', 'audio'));
+  }
+  return globalForAudio.audioStore;
+}
+
+export async function saveAudio(audio: StoredImage): Promise<string> {
+  const audioId = uuidv4();
+  await getAudioStore().put(audioId, 'original', audio);
+  return `${AUDIO_ROUTE_PREFIX}${audioId}`;
+}
+
+export function isValidAudioId(audioId: string): boolean {
+  return isValidImageId(audioId);
+}
+
+// 44-byte RIFF header for mono 16-bit PCM
+function toWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
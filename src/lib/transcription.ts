@@ -0,0 +1,21 @@
+import { z } from 'genkit';
+
+// Recorded clips are short voice questions; anything longer is almost certainly a stuck recorder
+export const MAX_AUDIO_BYTES = 5 * 1024 * 1024;
+
+// Formats MediaRecorder produces across Chrome, Firefox and Safari
+export const ACCEPTED_AUDIO_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav', 'audio/aac'];
+
+export const TranscriptionSchema = z.object({
+  text: z.string().describe('Verbatim transcript of what was said, without commentary. Empty if nothing was said.'),
+  language: z.string().describe('BCP-47 code of the spoken language, e.g. "en-US" or "de"'),
+});
+
+export const TRANSCRIPTION_PROMPT = `Transcribe this voice recording. It is a question or instruction from a user of an image analysis app.
+
+Return the words exactly as spoken in the original language - do not translate, summarize or answer the question. Add punctuation. If there is no speech, return an empty transcript.`;
+
+// Strip codec parameters, e.g. "audio/webm;codecs=opus" -> "audio/webm"
+export function getAudioMimeType(type: string): string {
+  return type.split(';')[0].trim().toLowerCase();
+}
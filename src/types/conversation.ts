@@ -1,14 +1,252 @@
 export interface Message {
   id: string;
-  role: 'user' | 'assistant';
+  // The message this one follows; null for the first question. Edited questions and regenerated answers
+  // share a parent with the message they replace, which is what makes them alternatives
+  parentId?: string | null;
+  // System entries record changes to the image set; they are shown in the chat but not sent to the model
+  role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
   imageUrl?: string;
+  imageUrls?: string[];
   audioUrl?: string;
+  status?: 'streaming' | 'interrupted';
+  analysis?: ImageAnalysis;
+  settings?: GenerationSettings;
+  personaId?: string;
+  imageEvent?: ImageEvent;
+  // How an assistant reply ended and how Gemini rated it
+  finishReason?: FinishReason;
+  safetyRatings?: SafetyRating[];
+}
+
+// Why Gemini stopped: a complete answer, the output token limit, or a safety or recitation block
+export type FinishReason = 'stop' | 'length' | 'blocked' | 'other' | 'unknown';
+
+export type SafetyCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export interface SafetySetting {
+  category: SafetyCategory;
+  threshold: SafetyThreshold;
+}
+
+// How likely Gemini judged the text to be harmful in one category; blocked when that stopped it
+export interface SafetyRating {
+  category: SafetyCategory;
+  probability: 'NEGLIGIBLE' | 'LOW' | 'MEDIUM' | 'HIGH';
+  blocked?: boolean;
+}
+
+// Images added to or removed from the conversation, by stored image URL
+export interface ImageEvent {
+  added: string[];
+  removed: string[];
+}
+
+export type ResponseLength = 'short' | 'medium' | 'long';
+
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  responseLength: ResponseLength;
+}
+
+export interface ChatHistoryEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  imageUrls?: string[];
+}
+
+// Why a chat request failed. `message` on the response explains it to the user; the code decides
+// whether the request is retried (see src/lib/chat-errors.ts)
+export type ChatError =
+  | { code: 'rate_limited'; retryAfterMs?: number }
+  // target is what was blocked: the question (prompt) or the answer
+  | { code: 'safety_blocked'; target: 'question' | 'answer'; safetyRatings?: SafetyRating[] }
+  | { code: 'invalid_image' }
+  | { code: 'timeout' }
+  | { code: 'missing_api_key' }
+  | { code: 'unavailable' }
+  | { code: 'invalid_request' }
+  | { code: 'not_found' }
+  | { code: 'unknown' };
+
+export type ChatErrorCode = ChatError['code'];
+
+export type ChatResponse =
+  | {
+      success: true;
+      message: string;
+      finishReason?: FinishReason;
+      safetyRatings?: SafetyRating[];
+      error?: undefined;
+    }
+  | { success: false; message: string; error: ChatError };
+
+// One line of the chat stream (newline-delimited JSON): reply text as it arrives, then how the reply ended,
+// or why it stopped early
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; finishReason: FinishReason; safetyRatings?: SafetyRating[] }
+  | { type: 'error'; message: string; error: ChatError };
+
+// Every message of a conversation, linked into a tree through parentId, and the last message of the branch
+// being shown. Only that branch is displayed and sent to the model as history
+export interface ConversationTree {
+  messages: Message[];
+  activeLeafId?: string;
+}
+
+// Where a new exchange goes in the conversation tree
+export interface TurnOptions {
+  // Message the new question follows: the active leaf by default, or null to start over from the top
+  parentId?: string | null;
+  // Answer this stored question again; the new answer becomes a sibling of the earlier ones
+  regenerateId?: string;
+  // IDs the client already shows the new messages under, so later requests can refer to them
+  userMessageId?: string;
+  assistantMessageId?: string;
+}
+
+export interface ChatSession extends ConversationTree {
+  id: string;
+  title?: string;
+  personaId?: string;
+  // BCP-47 code from LANGUAGES, or 'auto'
+  language?: string;
+  images: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title?: string;
+  thumbnail?: string;
+  firstQuestion?: string;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ImageUploadErrorCode = 'missing_file' | 'file_too_large' | 'unsupported_type' | 'invalid_image';
+
+export interface ImageUploadResponse {
+  success: boolean;
+  imageUrl?: string;
+  error?: string;
+  code?: ImageUploadErrorCode;
+}
+
+// One file in a multi-file upload, shown in the image panel until it finishes
+export interface ImageUpload {
+  id: string;
+  name: string;
+  status: 'queued' | 'uploading' | 'done' | 'error';
+  error?: string;
+}
+
+export type ExportFormat = 'markdown' | 'markdown-zip' | 'json' | 'print';
+
+// Lossless JSON export; importing it restores the session with all messages and images
+export interface ConversationExport {
+  format: 'lens-conversation';
+  version: 1;
+  exportedAt: string;
+  session: ChatSession;
+}
+
+// Normalized to the image size (0-1) with the origin at the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// An area the user marked in the image editor, sent with questions about that image
+export interface ImageHighlight {
+  imageIndex: number;
+  boundingBox: BoundingBox;
+}
+
+export interface DetectedObject {
+  label: string;
+  confidence: number;
+  imageIndex: number;
+  boundingBox: BoundingBox;
+}
+
+export interface TextBlock {
+  text: string;
+  imageIndex: number;
+  boundingBox?: BoundingBox;
+}
+
+export interface DominantColor {
+  hex: string;
+  name: string;
+  coverage: number;
+}
+
+export interface SafetyFlags {
+  containsPeople: boolean;
+  containsFaces: boolean;
+  containsPersonalInfo: boolean;
+  adultContent: boolean;
+  violence: boolean;
+}
+
+export interface ImageAnalysis {
+  summary: string;
+  objects: DetectedObject[];
+  textBlocks: TextBlock[];
+  dominantColors: DominantColor[];
+  sceneTags: string[];
+  safety: SafetyFlags;
+}
+
+export type AnalysisResponse =
+  { success: true; analysis: ImageAnalysis; error?: undefined } | { success: false; message: string; error: ChatError };
+
+export interface TranscriptionResponse {
+  success: boolean;
+  text?: string;
+  // BCP-47 code of the detected language
+  language?: string;
+  error?: string;
+}
+
+// One entry in the live lens caption feed; not stored with the session
+export interface LiveCaption {
+  id: string;
+  text: string;
+  timestamp: Date;
+}
+
+export interface LiveFrameRequest {
+  // Labels one live lens run in server logs. Frames are rate limited by client, not by this
+  liveId: string;
+  question: string;
+  previousCaption?: string;
+  language?: string;
+  settings?: Partial<GenerationSettings>;
 }
 
-export interface ChatResponse {
-  message: string;
+export interface LiveFrameResponse {
   success: boolean;
+  // False when the frame had nothing new to report
+  report?: boolean;
+  caption?: string;
+  // Set when the run is over its frame budget
+  retryAfterMs?: number;
   error?: string;
 }